@@ -1,5 +1,6 @@
 import test from 'ava';
-import {DEFAULT_CONFIG} from '../helpers/config';
+import {DEFAULT_CONFIG, DEFAULT_USERNOTE_TYPES} from '../helpers/config';
+import {CorruptConfigError} from './errors';
 import {SubredditConfig} from './SubredditConfig';
 
 test('constructor: accept empty input', t => {
@@ -14,6 +15,12 @@ test('constructor: accept empty input', t => {
 	);
 });
 
+test('constructor: reject invalid JSON', t => {
+	t.throws(() => new SubredditConfig('{"ver": 1'), {
+		instanceOf: CorruptConfigError,
+	});
+});
+
 test('constructor: results of passing in nothing and empty input are identical', t => {
 	const configFromNothing = new SubredditConfig();
 	const configFromEmpty = new SubredditConfig('');
@@ -32,7 +39,254 @@ test('constructor: on empty input, the default config is returned', t => {
 	t.deepEqual(configAsJson, DEFAULT_CONFIG, "SubredditConfig initiated with nothing should return default config");
 });
 
+test('constructor: modifying a default config does not modify the defaults', t => {
+	const config = new SubredditConfig();
+	config.addNoteType({key: 'custom', color: 'blue', text: 'Custom'});
+
+	t.deepEqual(new SubredditConfig().toJSON(), DEFAULT_CONFIG);
+});
+
 test.todo('getAllNoteTypes');
 test.todo('getNoteType');
+
+test('note type mutators', t => {
+	const config = new SubredditConfig();
+
+	config.addNoteType({key: 'custom', color: 'blue', text: 'Custom'}, 0);
+	t.throws(
+		() => config.addNoteType({key: 'ban', color: 'red', text: 'Ban'}),
+		{instanceOf: TypeError},
+	);
+	t.like(config.getAllNoteTypes(), [{key: 'custom'}, {key: 'gooduser'}]);
+
+	t.like(config.updateNoteType('custom', {text: 'Renamed'}), {
+		key: 'custom',
+		text: 'Renamed',
+	});
+	t.is(config.updateNoteType('nonexistent', {text: 'x'}), undefined);
+
+	t.true(config.moveNoteType('custom', 2));
+	t.like(config.getAllNoteTypes(), [
+		{key: 'gooduser'},
+		{key: 'spamwatch'},
+		{key: 'custom'},
+	]);
+
+	t.true(config.removeNoteType('custom'));
+	t.false(config.removeNoteType('custom'));
+	t.deepEqual(config.getAllNoteTypes(), [...DEFAULT_USERNOTE_TYPES]);
+});
+
+test('removal reason mutators', t => {
+	const config = new SubredditConfig();
+	const reason = {
+		title: 'Rule 1',
+		text: 'Be nice',
+		flairText: '',
+		flairCSS: '',
+		removePosts: true,
+		removeComments: true,
+	};
+
+	config.addRemovalReason(reason);
+	config.addRemovalReason({...reason, title: 'Rule 2'});
+	config.updateRemovalReasonSettings({header: 'Hi {author},'});
+	t.is(config.getRemovalReasonSettings().header, 'Hi {author},');
+	t.is(config.getRemovalReasonSettings().removalOption, 'suggest');
+
+	t.like(config.updateRemovalReason(1, {removeComments: false}), {
+		title: 'Rule 2',
+		removeComments: false,
+	});
+	t.true(config.moveRemovalReason(1, 0));
+	t.like(config.getAllRemovalReasons(), [{title: 'Rule 2'}, {title: 'Rule 1'}]);
+	t.true(config.removeRemovalReason(0));
+	t.false(config.removeRemovalReason(5));
+	t.deepEqual(config.getAllRemovalReasons(), [reason]);
+});
+
+test('getRemovalReasons', t => {
+	const config = new SubredditConfig(JSON.stringify({
+		ver: 1,
+		removalReasons: {
+			reasons: [
+				{title: 'posts', removePosts: true, removeComments: false},
+				{title: 'comments', removePosts: false, removeComments: true},
+				{title: 'both', removePosts: true, removeComments: true},
+				{title: 'legacy'},
+			],
+		},
+	}));
+
+	const {posts, comments} = config.getRemovalReasons();
+	t.deepEqual(posts.map(reason => reason.title), ['posts', 'both', 'legacy']);
+	t.deepEqual(comments.map(reason => reason.title), [
+		'comments',
+		'both',
+		'legacy',
+	]);
+});
+
+test('mod macro mutators', t => {
+	const config = new SubredditConfig();
+	const macro = {
+		title: 'Spam',
+		text: 'Please stop',
+		distinguish: true,
+		ban: false,
+		mute: false,
+		remove: true,
+		appprove: false,
+		lockthread: false,
+		sticky: false,
+		archivemodmail: false,
+		highlightmodmail: false,
+	};
+
+	config.addModMacro(macro);
+	config.addModMacro({...macro, title: 'Ban'}, 0);
+	t.like(config.updateModMacro(0, {ban: true}), {title: 'Ban', ban: true});
+	t.is(config.updateModMacro(2, {ban: true}), undefined);
+	t.true(config.moveModMacro(0, 1));
+	t.like(config.getAllModMacros(), [{title: 'Spam'}, {title: 'Ban'}]);
+	t.true(config.removeModMacro(1));
+	t.deepEqual(config.getAllModMacros(), [macro]);
+});
+
+test('ban macros', t => {
+	const config = new SubredditConfig();
+	t.deepEqual(config.getBanMacros(), {banNote: '', banMessage: ''});
+
+	config.updateBanMacros({banMessage: 'Bye {author}'});
+	t.deepEqual(JSON.parse(config.toString()).banMacros, {
+		banNote: '',
+		banMessage: 'Bye {author}',
+	});
+});
+
+test('domain tag mutators', t => {
+	const config = new SubredditConfig();
+
+	config.addDomainTag({name: 'example.com', color: 'red'});
+	config.addDomainTag({name: 'example.org', color: 'blue'});
+	t.throws(() => config.addDomainTag({name: 'example.com', color: 'green'}));
+	t.like(config.updateDomainTag('example.org', {color: 'green'}), {
+		name: 'example.org',
+		color: 'green',
+	});
+	t.true(config.moveDomainTag('example.org', 0));
+	t.true(config.removeDomainTag('example.com'));
+	t.deepEqual(config.getAllDomainTags(), [
+		{name: 'example.org', color: 'green'},
+	]);
+	t.deepEqual(JSON.parse(config.toString()).domainTags, [
+		{name: 'example.org', color: 'green'},
+	]);
+});
+
+test('getDomainTagForUrl', t => {
+	const config = new SubredditConfig();
+	config.addDomainTag({name: 'www.Example.com', color: 'red'});
+	config.addDomainTag({name: 'blog.example.com', color: 'blue'});
+	config.addDomainTag({name: 'reddit.com', color: 'orange'});
+	config.addDomainTag({name: 'i.redd.it', color: 'green'});
+
+	const colorFor = (url: string) => config.getDomainTagForUrl(url)?.color;
+	t.is(colorFor('https://example.com/page'), 'red');
+	t.is(colorFor('http://WWW.EXAMPLE.COM'), 'red');
+	t.is(colorFor('https://cdn.example.com/image.png'), 'red');
+	t.is(colorFor('https://blog.example.com/post'), 'blue');
+	t.is(colorFor('https://www.blog.example.com/post'), 'blue');
+	t.is(colorFor('example.com/no-scheme'), 'red');
+	t.is(colorFor('https://i.redd.it/abc.png'), 'green');
+	t.is(colorFor('https://v.redd.it/abc'), 'orange');
+	t.is(colorFor('https://redd.it/abc'), 'orange');
+	t.is(colorFor('https://old.reddit.com/r/pics'), 'orange');
+	t.is(colorFor('https://notexample.com'), undefined);
+	t.is(colorFor('https://example.org'), undefined);
+	t.is(colorFor('not a url'), undefined);
+});
+
+test('toJSON: keep unknown fields unchanged', t => {
+	const page = JSON.stringify({
+		ver: 1,
+		domainTags: [{name: 'example.com', color: 'red', note: 'spam'}],
+		removalReasons: {
+			header: 'header',
+			reasons: [{title: 'Rule 1', text: 'text', icon: 'star'}],
+			futureSetting: true,
+		},
+		modMacros: '',
+		usernoteColors: [{key: 'ban', text: 'Ban', color: 'red', emoji: 'x'}],
+		banMacros: '',
+		newSection: {enabled: true},
+	});
+	const config = new SubredditConfig(page);
+	t.is(config.toString(), page);
+
+	config.updateRemovalReason(0, {title: 'Rule one'});
+	t.is(config.toString(), page.replace('"Rule 1"', '"Rule one"'));
+});
+
+test('toJSON: keep legacy forms of unchanged sections', t => {
+	const page = JSON.stringify({
+		ver: 1,
+		domainTags: '',
+		removalReasons: {reasons: [{title: 'Rule 1', text: 'Be%20nice'}]},
+		modMacros: '',
+		usernoteColors: '',
+		banMacros: '',
+	});
+	const config = new SubredditConfig(page);
+	t.is(config.getAllRemovalReasons()[0]!.text, 'Be nice');
+	t.true(config.getAllRemovalReasons()[0]!.removeComments);
+	t.is(config.getAllNoteTypes().length, DEFAULT_USERNOTE_TYPES.length);
+	t.is(config.toString(), page);
+
+	config.addModMacro({
+		title: 'Spam',
+		text: 'Please stop',
+		distinguish: false,
+		ban: false,
+		mute: false,
+		remove: true,
+		appprove: false,
+		lockthread: false,
+		sticky: false,
+		archivemodmail: false,
+		highlightmodmail: false,
+	});
+	const written = JSON.parse(config.toString());
+	t.is(written.modMacros[0].text, 'Please%20stop');
+	t.is(written.usernoteColors, '');
+	t.deepEqual(new SubredditConfig(config.toString()).getAllModMacros(), [
+		...config.getAllModMacros(),
+	]);
+});
+
+test('toJSON: edit lists with malformed entries', t => {
+	const config = new SubredditConfig(JSON.stringify({
+		ver: 1,
+		modMacros: [null, {title: 'A', text: 'aaa'}, {title: 'B', text: 'bbb'}],
+		usernoteColors: [
+			'not a type',
+			{key: 'a', text: 'A', color: 5},
+			{key: 'b', text: 'B', color: 'red'},
+		],
+	}));
+	config.updateModMacro(1, {title: 'B2'});
+	config.updateNoteType('b', {text: 'B2'});
+
+	const raw = config.toJSON();
+	t.deepEqual(raw.modMacros, [
+		{title: 'A', text: 'aaa'},
+		{title: 'B2', text: 'bbb'},
+	]);
+	t.deepEqual(raw.usernoteColors, [
+		{key: 'a', text: 'A', color: 5},
+		{key: 'b', text: 'B2', color: 'red'},
+	]);
+});
+
 test.todo('toJSON');
 test.todo('toString');
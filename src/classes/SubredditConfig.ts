@@ -1,9 +1,19 @@
 import {
 	DEFAULT_CONFIG,
-	DEFAULT_USERNOTE_TYPES,
+	denormalizeConfig,
 	migrateConfigToLatestSchema,
+	normalizeConfig,
 } from '../helpers/config';
-import {RawSubredditConfig, RawUsernoteType} from '../types/RawSubredditConfig';
+import {matchDomainTag} from '../helpers/domainTags';
+import {
+	RawDomainTag,
+	RawModMacro,
+	RawRemovalReason,
+	RawSubredditConfig,
+	RawUsernoteType,
+} from '../types/RawSubredditConfig';
+import {RemovalReasonsByKind} from '../types/RemovalReasons';
+import {CorruptConfigError} from './errors';
 
 // type imports for doc references
 import type {Usernote} from '../types/Usernote';
@@ -11,32 +21,40 @@ import type {Usernote} from '../types/Usernote';
 /**
  * A class that interfaces with the raw contents of a subreddit's `toolbox`
  * wiki page, automatically handling schema checks and providing methods to read
- * and modify subreddit configuration.
+ * and modify subreddit configuration. The config is normalized when it's read
+ * (see {@linkcode normalizeConfig}), so everything returned by this class
+ * matches its type, and converted back when it's written.
  */
 export class SubredditConfig {
 	private data: RawSubredditConfig;
 
+	/** The data as it was read, used to write unchanged parts back as-is */
+	private original: unknown;
+
 	constructor (jsonString?: string) {
 		if (jsonString) {
-			this.data = migrateConfigToLatestSchema(JSON.parse(jsonString));
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(jsonString);
+			} catch (error) {
+				throw new CorruptConfigError(error);
+			}
+			this.original = migrateConfigToLatestSchema(parsed);
 		} else {
-			// TODO: the default config value isn't actually typed correctly, this needs to be cleaned up eventually
-			this.data = DEFAULT_CONFIG as unknown as RawSubredditConfig;
+			// copy it so writing this config back can't modify the default
+			this.original = {
+				...DEFAULT_CONFIG,
+				domainTags: [...DEFAULT_CONFIG.domainTags],
+			};
 		}
+		this.data = normalizeConfig(this.original);
 	}
 
-	/** Returns all usernote types. */
+	/**
+	 * Returns all usernote types. If the config doesn't specify any, this is
+	 * the default set of types.
+	 */
 	getAllNoteTypes (): RawUsernoteType[] {
-		// If the config doesn't specify any note types, make a copy of the
-		// default set and add them to the config so the unambiguous form will
-		// be written back
-		if (!this.data.usernoteColors || !this.data.usernoteColors.length) {
-			const defaultTypes = DEFAULT_USERNOTE_TYPES.map(noteType => ({
-				...noteType,
-			}));
-			this.data.usernoteColors = defaultTypes;
-		}
-
 		return this.data.usernoteColors;
 	}
 
@@ -63,15 +81,292 @@ export class SubredditConfig {
 		return noteTypes.find(noteType => noteType.key === key);
 	}
 
+	/**
+	 * Adds a new usernote type.
+	 * @param noteType The note type to add. Its key must not already be used.
+	 * @param index Position to insert the type at, defaulting to the end
+	 */
+	addNoteType (noteType: RawUsernoteType, index?: number): void {
+		const noteTypes = this.getAllNoteTypes();
+		if (noteTypes.some(existing => existing.key === noteType.key)) {
+			throw new TypeError(`Note type key ${noteType.key} is already in use`);
+		}
+		insertItem(noteTypes, {...noteType}, index);
+	}
+
+	/**
+	 * Changes the color or text of a usernote type. Keys can't be changed
+	 * because existing notes refer to them.
+	 * @param key The key of the note type to update
+	 * @param changes The properties of the note type to change
+	 * @returns The updated note type, or `undefined` if it wasn't found
+	 */
+	updateNoteType (
+		key: string,
+		changes: Partial<Omit<RawUsernoteType, 'key'>>,
+	): RawUsernoteType | undefined {
+		const noteTypes = this.getAllNoteTypes();
+		return updateItem<RawUsernoteType>(
+			noteTypes,
+			findIndex(noteTypes, 'key', key),
+			changes,
+		);
+	}
+
+	/**
+	 * Removes a usernote type. Existing notes of this type are left alone.
+	 * @param key The key of the note type to remove
+	 * @returns `true` if the note type was found and removed, `false` otherwise
+	 */
+	removeNoteType (key: string): boolean {
+		const noteTypes = this.getAllNoteTypes();
+		return removeItem(noteTypes, findIndex(noteTypes, 'key', key));
+	}
+
+	/**
+	 * Moves a usernote type to a different position in the list.
+	 * @param key The key of the note type to move
+	 * @param toIndex The position to move the note type to
+	 * @returns `true` if the note type was found and moved, `false` otherwise
+	 */
+	moveNoteType (key: string, toIndex: number): boolean {
+		const noteTypes = this.getAllNoteTypes();
+		return moveItem(noteTypes, findIndex(noteTypes, 'key', key), toIndex);
+	}
+
+	/** Returns all removal reasons, for both posts and comments. */
+	getAllRemovalReasons (): RawRemovalReason[] {
+		return this.getRemovalReasonSettings().reasons;
+	}
+
+	/**
+	 * Returns the subreddit's removal reasons, split into those which apply to
+	 * submissions and those which apply to comments. A reason can appear in
+	 * both lists. Reasons that don't say which kinds of items they apply to
+	 * apply to both, matching the Toolbox extension's behavior.
+	 */
+	getRemovalReasons (): RemovalReasonsByKind {
+		const reasons = this.getAllRemovalReasons();
+		return {
+			posts: reasons.filter(reason => reason.removePosts),
+			comments: reasons.filter(reason => reason.removeComments),
+		};
+	}
+
+	/**
+	 * Returns the subreddit's removal reason settings, including the header,
+	 * footer, and message delivery options.
+	 */
+	getRemovalReasonSettings (): RawSubredditConfig['removalReasons'] {
+		return this.data.removalReasons;
+	}
+
+	/**
+	 * Changes the subreddit's removal reason settings, e.g. the header and
+	 * footer used in all removal messages.
+	 * @param changes The settings to change
+	 */
+	updateRemovalReasonSettings (
+		changes: Partial<Omit<RawSubredditConfig['removalReasons'], 'reasons'>>,
+	): void {
+		Object.assign(this.getRemovalReasonSettings(), changes);
+	}
+
+	/**
+	 * Adds a new removal reason.
+	 * @param reason The removal reason to add
+	 * @param index Position to insert the reason at, defaulting to the end
+	 */
+	addRemovalReason (reason: RawRemovalReason, index?: number): void {
+		insertItem(this.getAllRemovalReasons(), {...reason}, index);
+	}
+
+	/**
+	 * Changes the details of a removal reason.
+	 * @param index The position of the reason to update
+	 * @param changes The properties of the reason to change
+	 * @returns The updated reason, or `undefined` if there's no reason at the
+	 * given position
+	 */
+	updateRemovalReason (
+		index: number,
+		changes: Partial<RawRemovalReason>,
+	): RawRemovalReason | undefined {
+		return updateItem(this.getAllRemovalReasons(), index, changes);
+	}
+
+	/**
+	 * Removes a removal reason.
+	 * @param index The position of the reason to remove
+	 * @returns `true` if the reason was removed, `false` if there's no reason
+	 * at the given position
+	 */
+	removeRemovalReason (index: number): boolean {
+		return removeItem(this.getAllRemovalReasons(), index);
+	}
+
+	/**
+	 * Moves a removal reason to a different position in the list.
+	 * @param fromIndex The current position of the reason
+	 * @param toIndex The position to move the reason to
+	 * @returns `true` if the reason was moved, `false` if there's no reason at
+	 * the given position
+	 */
+	moveRemovalReason (fromIndex: number, toIndex: number): boolean {
+		return moveItem(this.getAllRemovalReasons(), fromIndex, toIndex);
+	}
+
+	/** Returns all mod macros. */
+	getAllModMacros (): RawModMacro[] {
+		return this.data.modMacros;
+	}
+
+	/**
+	 * Adds a new mod macro.
+	 * @param macro The macro to add
+	 * @param index Position to insert the macro at, defaulting to the end
+	 */
+	addModMacro (macro: RawModMacro, index?: number): void {
+		insertItem(this.getAllModMacros(), {...macro}, index);
+	}
+
+	/**
+	 * Changes the details of a mod macro.
+	 * @param index The position of the macro to update
+	 * @param changes The properties of the macro to change
+	 * @returns The updated macro, or `undefined` if there's no macro at the
+	 * given position
+	 */
+	updateModMacro (
+		index: number,
+		changes: Partial<RawModMacro>,
+	): RawModMacro | undefined {
+		return updateItem(this.getAllModMacros(), index, changes);
+	}
+
+	/**
+	 * Removes a mod macro.
+	 * @param index The position of the macro to remove
+	 * @returns `true` if the macro was removed, `false` if there's no macro at
+	 * the given position
+	 */
+	removeModMacro (index: number): boolean {
+		return removeItem(this.getAllModMacros(), index);
+	}
+
+	/**
+	 * Moves a mod macro to a different position in the list.
+	 * @param fromIndex The current position of the macro
+	 * @param toIndex The position to move the macro to
+	 * @returns `true` if the macro was moved, `false` if there's no macro at
+	 * the given position
+	 */
+	moveModMacro (fromIndex: number, toIndex: number): boolean {
+		return moveItem(this.getAllModMacros(), fromIndex, toIndex);
+	}
+
+	/**
+	 * Returns the default ban note and ban message used when banning users
+	 * through the Toolbox mod button.
+	 */
+	getBanMacros (): RawSubredditConfig['banMacros'] {
+		return this.data.banMacros;
+	}
+
+	/**
+	 * Changes the default ban note or ban message.
+	 * @param changes The properties to change
+	 */
+	updateBanMacros (changes: Partial<RawSubredditConfig['banMacros']>): void {
+		Object.assign(this.getBanMacros(), changes);
+	}
+
+	/** Returns all domain tags. */
+	getAllDomainTags (): RawDomainTag[] {
+		return this.data.domainTags;
+	}
+
+	/**
+	 * Finds the domain tag that applies to a URL, e.g. the link of a post. Tags
+	 * apply to subdomains too, `www.` is ignored, and Reddit-hosted links
+	 * (`i.redd.it`, `v.redd.it`, `redd.it`) are also matched by a tag on
+	 * `reddit.com`. The most specific matching tag wins.
+	 * @param url The URL to find a tag for
+	 * @returns The matching tag, or `undefined` if no tag applies
+	 */
+	getDomainTagForUrl (url: string): RawDomainTag | undefined {
+		return matchDomainTag(this.getAllDomainTags(), url);
+	}
+
+	/**
+	 * Adds a new domain tag.
+	 * @param tag The domain tag to add. Its domain must not already be tagged.
+	 * @param index Position to insert the tag at, defaulting to the end
+	 */
+	addDomainTag (tag: RawDomainTag, index?: number): void {
+		const tags = this.getAllDomainTags();
+		if (tags.some(existing => existing.name === tag.name)) {
+			throw new TypeError(`Domain ${tag.name} is already tagged`);
+		}
+		insertItem(tags, {...tag}, index);
+	}
+
+	/**
+	 * Changes the details of a domain tag.
+	 * @param name The domain of the tag to update
+	 * @param changes The properties of the tag to change
+	 * @returns The updated tag, or `undefined` if the domain isn't tagged
+	 */
+	updateDomainTag (
+		name: string,
+		changes: Partial<RawDomainTag>,
+	): RawDomainTag | undefined {
+		const tags = this.getAllDomainTags();
+		return updateItem(tags, findIndex(tags, 'name', name), changes);
+	}
+
+	/**
+	 * Removes a domain tag.
+	 * @param name The domain of the tag to remove
+	 * @returns `true` if the tag was found and removed, `false` otherwise
+	 */
+	removeDomainTag (name: string): boolean {
+		const tags = this.getAllDomainTags();
+		return removeItem(tags, findIndex(tags, 'name', name));
+	}
+
+	/**
+	 * Moves a domain tag to a different position in the list.
+	 * @param name The domain of the tag to move
+	 * @param toIndex The position to move the tag to
+	 * @returns `true` if the tag was found and moved, `false` otherwise
+	 */
+	moveDomainTag (name: string, toIndex: number): boolean {
+		const tags = this.getAllDomainTags();
+		return moveItem(tags, findIndex(tags, 'name', name), toIndex);
+	}
+
+	/**
+	 * Makes a copy of this config. Changes to the copy don't affect the
+	 * original, and vice versa.
+	 */
+	clone (): SubredditConfig {
+		const copy = new SubredditConfig();
+		copy.data = JSON.parse(JSON.stringify(this.data));
+		copy.original = JSON.parse(JSON.stringify(this.original));
+		return copy;
+	}
+
 	/**
 	 * Serializes the subreddit config data for writing back to the wiki. **This
 	 * method returns an object; you probably want {@linkcode toString}
-	 * instead.**
+	 * instead.** Parts of the config that haven't been changed are written
+	 * back exactly as they were read; see {@linkcode denormalizeConfig}.
 	 * @returns Object which can be serialized to JSON and written as the
 	 * contents of the `toolbox` wiki page
 	 */
 	toJSON () {
-		return this.data;
+		return denormalizeConfig(this.data, this.original);
 	}
 
 	/**
@@ -83,6 +378,52 @@ export class SubredditConfig {
 	 * wiki page
 	 */
 	toString (indent?: string | number) {
-		return JSON.stringify(this.data, null, indent);
+		return JSON.stringify(this.toJSON(), null, indent);
+	}
+}
+
+/** Finds the index of the item in a list with the given value for a key. */
+function findIndex<T, K extends keyof T> (list: T[], key: K, value: T[K]) {
+	return list.findIndex(item => item[key] === value);
+}
+
+/** Inserts an item into a list at the given index, or at the end. */
+function insertItem<T> (list: T[], item: T, index = list.length) {
+	list.splice(index, 0, item);
+}
+
+/**
+ * Replaces the item at the given index of a list with an updated copy, if
+ * there's an item there.
+ */
+function updateItem<T> (
+	list: T[],
+	index: number,
+	changes: Partial<T>,
+): T | undefined {
+	if (index < 0 || index >= list.length) {
+		return undefined;
+	}
+	const updatedItem = {...list[index]!, ...changes};
+	list[index] = updatedItem;
+	return updatedItem;
+}
+
+/** Removes the item at the given index of a list, if there's one there. */
+function removeItem<T> (list: T[], index: number): boolean {
+	if (index < 0 || index >= list.length) {
+		return false;
+	}
+	list.splice(index, 1);
+	return true;
+}
+
+/** Moves the item at one index of a list to another index. */
+function moveItem<T> (list: T[], fromIndex: number, toIndex: number): boolean {
+	if (fromIndex < 0 || fromIndex >= list.length) {
+		return false;
 	}
+	const [item] = list.splice(fromIndex, 1);
+	list.splice(toIndex, 0, item!);
+	return true;
 }
@@ -1,10 +1,879 @@
 import test from 'ava';
+import {randomBytes} from 'crypto';
+import {
+	RemovalReasonsSourceError,
+	UsernoteNotFoundError,
+	UsernotesConflictError,
+	WikiPageMissingError,
+	WikiPermissionError,
+	WikiSizeLimitError,
+} from './errors';
+import {SubredditConfig} from './SubredditConfig';
 import {ToolboxClient} from './ToolboxClient';
+import {Usernotes} from './Usernotes';
+import {MemoryCacheStorage} from './WikiPageCache';
+
+/**
+ * Creates a minimal stand-in for Devvit's Reddit API client which stores wiki
+ * pages in memory and bumps the revision ID on every write. Pages in the
+ * subreddit named `subreddit` are keyed by page name alone; pages in other
+ * subreddits are keyed as `othersubreddit/page`.
+ */
+function fakeReddit (pages: Record<string, string> = {}) {
+	let lastRevision = 0;
+	const wiki = new Map<string, {content: string; revisionId: string}>();
+	const pageKey = (subreddit: string, page: string) =>
+		subreddit === 'subreddit' ? page : `${subreddit}/${page}`;
+	const fake = {
+		wiki,
+		writes: 0,
+		reads: 0,
+		/** Subreddits whose wiki can't be read at all */
+		forbidden: new Set<string>(),
+		/** Called after every page read, to simulate concurrent edits */
+		afterRead: undefined as undefined | (() => void),
+		/** Every revision of every page, oldest first */
+		revisions: [] as {
+			key: string;
+			id: string;
+			content: string;
+			reason?: string;
+		}[],
+		edit (key: string, content: string, reason?: string) {
+			lastRevision += 1;
+			const revisionId = `rev${lastRevision}`;
+			wiki.set(key, {content, revisionId});
+			fake.revisions.push({key, id: revisionId, content, reason});
+		},
+		async getWikiPage (subreddit: string, page: string) {
+			const data = wiki.get(pageKey(subreddit, page));
+			if (!data || fake.forbidden.has(subreddit)) {
+				throw new Error('page not found');
+			}
+			fake.reads += 1;
+			fake.afterRead?.();
+			return {...data};
+		},
+		async getWikiPages (subreddit: string) {
+			if (fake.forbidden.has(subreddit)) {
+				throw new Error('forbidden');
+			}
+			return [...wiki.keys()]
+				.filter(key => pageKey(subreddit, key.split('/').pop()!) === key)
+				.map(key => key.split('/').pop()!);
+		},
+		async updateWikiPage (
+			options: {
+				subredditName: string;
+				page: string;
+				content: string;
+				reason?: string;
+			},
+		) {
+			fake.writes += 1;
+			const key = pageKey(options.subredditName, options.page);
+			fake.edit(key, options.content, options.reason);
+			return {...wiki.get(key)!};
+		},
+		getWikiPageRevisions (
+			options: {subredditName: string; page: string; limit: number},
+		) {
+			const key = pageKey(options.subredditName, options.page);
+			const revisions = fake.revisions
+				.filter(revision => revision.key === key)
+				.reverse()
+				.slice(0, options.limit)
+				.map(({id, reason}, i) => ({
+					id,
+					reason: reason ?? '',
+					date: new Date(Date.UTC(2023, 0, 10 - i)),
+					author: {username: 'someMod'},
+				}));
+			return {get: async () => revisions};
+		},
+		/** Stands in for an app-provided way to read old revisions */
+		async loadWikiRevision (_subreddit: string, _page: string, id: string) {
+			return fake.revisions.find(revision => revision.id === id)!.content;
+		},
+		async getAppUser () {
+			return {username: 'appUser'};
+		},
+		bans: [] as unknown[],
+		async banUser (options: unknown) {
+			fake.bans.push(options);
+		},
+	};
+	for (const [key, content] of Object.entries(pages)) {
+		fake.edit(key, content);
+	}
+	return fake;
+}
 
 test.todo('getUsernotes');
 
+test('getUsernotes: report missing pages', async t => {
+	const toolbox = new ToolboxClient(fakeReddit({}));
+
+	const error = await t.throwsAsync(toolbox.getUsernotes('subreddit'), {
+		instanceOf: WikiPageMissingError,
+	});
+	t.is(error?.page, 'usernotes');
+});
+
+test('writeConfig: report missing permissions', async t => {
+	const reddit = fakeReddit({});
+	reddit.updateWikiPage = async () => {
+		throw new Error('403 Forbidden');
+	};
+	const toolbox = new ToolboxClient(reddit);
+
+	const error = await t.throwsAsync(
+		toolbox.writeConfig('subreddit', new SubredditConfig(), 'test'),
+		{instanceOf: WikiPermissionError},
+	);
+	t.is(error?.operation, 'write');
+});
+
 test.todo('getUsernotesOnUser');
 
-test.todo('writeUsernotes');
+test('writeUsernotes: write unconditionally if notes were not read from the wiki', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	const notes = new Usernotes();
+	notes.add({
+		username: 'someUser',
+		text: 'hello',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(),
+	});
+	await toolbox.writeUsernotes('subreddit', notes, undefined);
+
+	t.is(reddit.writes, 1);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.is(saved.get('someUser').length, 1);
+});
+
+test('writeUsernotes: throw on conflict when changes cannot be reapplied', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	const notes = await toolbox.getUsernotes('subreddit');
+	reddit.edit('usernotes', new Usernotes().toString());
+
+	const error = await t.throwsAsync(
+		toolbox.writeUsernotes('subreddit', notes, undefined),
+		{instanceOf: UsernotesConflictError},
+	);
+	t.is(error?.expectedRevisionId, 'rev1');
+	t.is(error?.actualRevisionId, 'rev2');
+	t.is(reddit.writes, 0, 'nothing should be written after a conflict');
+});
+
+test('writeUsernotes: prune notes and refuse to write oversized pages', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	// Random text doesn't compress, so this is guaranteed to be too big
+	const notes = await toolbox.getUsernotes('subreddit');
+	for (let i = 0; i < 60; i += 1) {
+		notes.add({
+			username: `user${i}`,
+			text: randomBytes(10 * 1024).toString('hex'),
+			moderatorUsername: 'someMod',
+			timestamp: new Date(),
+		});
+	}
+	await t.throwsAsync(
+		toolbox.writeUsernotes('subreddit', notes, undefined),
+		{instanceOf: WikiSizeLimitError},
+	);
+	t.is(reddit.writes, 0);
+
+	await toolbox.writeUsernotes('subreddit', notes, undefined, {
+		prune: {shouldRemoveUser: username => username !== 'user0'},
+	});
+	t.is(reddit.writes, 1);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.deepEqual(saved.usernames(), ['user0']);
+});
+
+test('addUsernote: reapply the note on top of concurrent changes', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	// Someone else adds a note right after we read the page for the first time
+	reddit.afterRead = () => {
+		reddit.afterRead = undefined;
+		const otherNotes = new Usernotes();
+		otherNotes.add({
+			username: 'otherUser',
+			text: 'added concurrently',
+			moderatorUsername: 'otherMod',
+			timestamp: new Date(),
+		});
+		reddit.edit('usernotes', otherNotes.toString());
+	};
+
+	await toolbox.addUsernote('subreddit', {
+		username: 'someUser',
+		text: 'added by app',
+	}, undefined);
+
+	t.is(reddit.writes, 1);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('otherUser'), [{text: 'added concurrently'}]);
+	t.like(saved.get('someUser'), [{
+		text: 'added by app',
+		moderatorUsername: 'appUser',
+	}]);
+});
+
+test('addUsernote: give up after running out of retries', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	// Someone else edits the page every single time we read it
+	reddit.afterRead = () => {
+		reddit.edit('usernotes', new Usernotes().toString());
+	};
+
+	const error = await t.throwsAsync(
+		toolbox.addUsernote('subreddit', {
+			username: 'someUser',
+			text: 'never saved',
+		}, undefined, 2),
+		{instanceOf: UsernotesConflictError},
+	);
+	t.is(error?.attempts, 3);
+	t.is(reddit.writes, 0);
+});
+
+test('deleteUsernote: remove the note and write the page', async t => {
+	const initial = new Usernotes();
+	initial.add({
+		username: 'someUser',
+		text: 'oops',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(5000),
+	});
+	const reddit = fakeReddit({usernotes: initial.toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	const [note] = await toolbox.getUsernotesOnUser('subreddit', 'someUser');
+	await toolbox.deleteUsernote('subreddit', note!, undefined);
+
+	t.is(reddit.writes, 1);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.deepEqual(saved.get('someUser'), []);
+
+	await t.throwsAsync(
+		toolbox.deleteUsernote('subreddit', note!, undefined),
+		{instanceOf: UsernoteNotFoundError},
+	);
+	t.is(reddit.writes, 1, 'nothing should be written for missing notes');
+});
+
+test('editUsernote: change the note and write the page', async t => {
+	const initial = new Usernotes();
+	initial.add({
+		username: 'someUser',
+		text: 'tpyo',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(5000),
+	});
+	const reddit = fakeReddit({usernotes: initial.toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	await toolbox.editUsernote('subreddit', {
+		username: 'someUser',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(5000),
+	}, {text: 'typo'}, undefined);
+
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('someUser'), [{text: 'typo'}]);
+});
+
+test('deleteAllUsernotesOnUser: skip writing when there is nothing to delete', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	t.is(
+		await toolbox.deleteAllUsernotesOnUser('subreddit', 'someUser', undefined),
+		0,
+	);
+	t.is(reddit.writes, 0);
+});
+
+test('writeConfig: save config to the toolbox page', async t => {
+	const reddit = fakeReddit();
+	const toolbox = new ToolboxClient(reddit);
+
+	const config = new SubredditConfig();
+	config.addNoteType({key: 'custom', color: 'blue', text: 'Custom'});
+	await toolbox.writeConfig('subreddit', config, undefined);
+
+	const saved = new SubredditConfig(reddit.wiki.get('toolbox')!.content);
+	t.like(saved.getNoteType('custom'), {color: 'blue', text: 'Custom'});
+});
+
+/** Creates toolbox config page contents with the given removal reasons. */
+function configWithReasons (getfrom: string, titles: string[] = []) {
+	return JSON.stringify({
+		ver: 1,
+		removalReasons: {
+			getfrom,
+			header: `header from ${titles.join(',')}`,
+			reasons: titles.map(title => ({title, text: title})),
+		},
+	});
+}
+
+test('getEffectiveRemovalReasons: use own reasons when not redirected', async t => {
+	const reddit = fakeReddit({toolbox: configWithReasons('', ['own'])});
+	const toolbox = new ToolboxClient(reddit);
+
+	const result = await toolbox.getEffectiveRemovalReasons('subreddit');
+	t.is(result.source, 'subreddit');
+	t.deepEqual(result.chain, ['subreddit']);
+	t.like(result.settings.reasons, [{title: 'own'}]);
+});
+
+test('getEffectiveRemovalReasons: follow getfrom through several subreddits', async t => {
+	const reddit = fakeReddit({
+		'toolbox': configWithReasons('/r/middle', ['ignored']),
+		'middle/toolbox': configWithReasons('r/source'),
+		'source/toolbox': configWithReasons('', ['shared']),
+	});
+	const toolbox = new ToolboxClient(reddit);
+
+	const result = await toolbox.getEffectiveRemovalReasons('subreddit');
+	t.is(result.source, 'source');
+	t.deepEqual(result.chain, ['subreddit', 'middle', 'source']);
+	t.is(result.settings.header, 'header from shared');
+	t.like(result.settings.reasons, [{title: 'shared'}]);
+
+	const error = await t.throwsAsync(
+		toolbox.getEffectiveRemovalReasons('subreddit', 1),
+		{instanceOf: RemovalReasonsSourceError},
+	);
+	t.is(error?.problem, 'depth');
+});
+
+test('getEffectiveRemovalReasons: report cycles', async t => {
+	const reddit = fakeReddit({
+		'toolbox': configWithReasons('other'),
+		'other/toolbox': configWithReasons('Subreddit'),
+	});
+	const toolbox = new ToolboxClient(reddit);
+
+	const error = await t.throwsAsync(
+		toolbox.getEffectiveRemovalReasons('subreddit'),
+		{instanceOf: RemovalReasonsSourceError},
+	);
+	t.is(error?.problem, 'cycle');
+	t.deepEqual(error?.chain, ['subreddit', 'other', 'Subreddit']);
+});
+
+test('getEffectiveRemovalReasons: report missing and inaccessible sources', async t => {
+	const reddit = fakeReddit({toolbox: configWithReasons('other')});
+	const toolbox = new ToolboxClient(reddit);
+
+	const missing = await t.throwsAsync(
+		toolbox.getEffectiveRemovalReasons('subreddit'),
+		{instanceOf: RemovalReasonsSourceError},
+	);
+	t.is(missing?.problem, 'missing');
+	t.deepEqual(missing?.chain, ['subreddit', 'other']);
+
+	reddit.forbidden.add('other');
+	const inaccessible = await t.throwsAsync(
+		toolbox.getEffectiveRemovalReasons('subreddit'),
+		{instanceOf: RemovalReasonsSourceError},
+	);
+	t.is(inaccessible?.problem, 'inaccessible');
+	t.assert(inaccessible?.cause instanceof WikiPermissionError);
+});
+
+test('banUser: use default ban macros and leave a usernote', async t => {
+	const reddit = fakeReddit({
+		toolbox: JSON.stringify({
+			ver: 1,
+			banMacros: {
+				banNote: 'banned by {mod}',
+				banMessage: 'Hi {author}, you are banned from /r/{subreddit}',
+			},
+		}),
+		usernotes: new Usernotes().toString(),
+	});
+	const toolbox = new ToolboxClient(reddit);
+
+	await toolbox.banUser({
+		subreddit: 'subreddit',
+		username: 'someUser',
+		duration: 3,
+		context: 't3_abc',
+		usernote: {contextPermalink: 'https://redd.it/abc'},
+	});
+
+	t.deepEqual(reddit.bans, [{
+		subredditName: 'subreddit',
+		username: 'someUser',
+		duration: 3,
+		reason: undefined,
+		note: 'banned by appUser',
+		message: 'Hi someUser, you are banned from /r/subreddit',
+		context: 't3_abc',
+	}]);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('someUser'), [{
+		text: 'banned by appUser',
+		noteType: 'ban',
+		moderatorUsername: 'appUser',
+		contextPermalink: 'https://www.reddit.com/comments/abc',
+	}]);
+});
+
+test('banUser: permanent bans without ban macros', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	await toolbox.banUser({
+		subreddit: 'subreddit',
+		username: 'someUser',
+		message: 'Bye {author}',
+		usernote: {},
+	});
+
+	t.like(reddit.bans, [{
+		duration: undefined,
+		note: undefined,
+		message: 'Bye someUser',
+	}]);
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('someUser'), [{
+		text: 'Permanently banned',
+		noteType: 'permban',
+	}]);
+});
+
+test('banUser: skip the usernote unless asked', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	await toolbox.banUser({subreddit: 'subreddit', username: 'someUser'});
+
+	t.is(reddit.bans.length, 1);
+	t.is(reddit.writes, 0);
+});
+
+test('cache: reuse pages until written through the client', async t => {
+	const reddit = fakeReddit({
+		toolbox: JSON.stringify({ver: 1}),
+		usernotes: new Usernotes().toString(),
+	});
+	const toolbox = new ToolboxClient(reddit, {
+		cache: {storage: new MemoryCacheStorage()},
+	});
+
+	await toolbox.getUsernotesOnUser('subreddit', 'someUser');
+	await toolbox.getUsernotesOnUser('subreddit', 'someUser');
+	await toolbox.getConfig('subreddit');
+	await toolbox.getConfig('subreddit');
+	t.is(reddit.reads, 2, 'each page should only be read once');
+
+	// adding a note reads from cache, checks the current revision, and writes
+	await toolbox.addUsernote('subreddit', {
+		username: 'someUser',
+		text: 'hello',
+	}, undefined);
+	t.is(reddit.reads, 3);
+
+	// the write should have invalidated the cached usernotes
+	const notes = await toolbox.getUsernotesOnUser('subreddit', 'someUser');
+	t.is(reddit.reads, 4);
+	t.like(notes, [{text: 'hello'}]);
+});
+
+test('cache: hand out separate copies of parsed pages', async t => {
+	const reddit = fakeReddit({
+		toolbox: new SubredditConfig().toString(),
+		usernotes: new Usernotes().toString(),
+	});
+	const toolbox = new ToolboxClient(reddit, {
+		cache: {storage: new MemoryCacheStorage()},
+	});
+
+	const notes = await toolbox.getUsernotes('subreddit');
+	notes.add({
+		username: 'someUser',
+		text: 'not saved',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(),
+	});
+	const config = await toolbox.getConfig('subreddit');
+	config.removeNoteType('ban');
+
+	t.deepEqual((await toolbox.getUsernotes('subreddit')).get('someUser'), []);
+	t.truthy((await toolbox.getConfig('subreddit')).getNoteType('ban'));
+	t.is(reddit.reads, 2);
+});
+
+test('cache: recover from stale cached usernotes when adding notes', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit, {
+		cache: {storage: new MemoryCacheStorage()},
+	});
+	await toolbox.getUsernotes('subreddit');
+
+	// someone else edits the page while our copy is cached
+	const otherNotes = new Usernotes();
+	otherNotes.add({
+		username: 'otherUser',
+		text: 'added elsewhere',
+		moderatorUsername: 'otherMod',
+		timestamp: new Date(),
+	});
+	reddit.edit('usernotes', otherNotes.toString());
+
+	await toolbox.addUsernote('subreddit', {
+		username: 'someUser',
+		text: 'added by app',
+	}, undefined);
+
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('otherUser'), [{text: 'added elsewhere'}]);
+	t.like(saved.get('someUser'), [{text: 'added by app'}]);
+});
+
+test('batchUsernotes: apply all operations in a single write', async t => {
+	const initial = new Usernotes();
+	initial.add({
+		username: 'someUser',
+		text: 'old',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(5000),
+	});
+	initial.add({
+		username: 'someUser',
+		text: 'tpyo',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(6000),
+	});
+	const reddit = fakeReddit({usernotes: initial.toString()});
+	const reasons: string[] = [];
+	const updateWikiPage = reddit.updateWikiPage;
+	reddit.updateWikiPage = async options => {
+		reasons.push((options as {reason: string}).reason);
+		return updateWikiPage(options);
+	};
+	const toolbox = new ToolboxClient(reddit);
+
+	const missing = {
+		username: 'nobody',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(5000),
+	};
+	const result = await toolbox.batchUsernotes('subreddit', [
+		{type: 'add', note: {username: 'userA', text: 'brigade'}},
+		{type: 'add', note: {username: 'userB', text: 'brigade'}},
+		{
+			type: 'edit',
+			note: {...missing, username: 'someUser', timestamp: new Date(6000)},
+			changes: {text: 'typo'},
+		},
+		{type: 'delete', note: {...missing, username: 'someUser'}},
+		{type: 'delete', note: missing},
+	]);
+
+	t.deepEqual(result, {
+		added: 2,
+		edited: 1,
+		deleted: 1,
+		notFound: [{type: 'delete', note: missing}],
+	});
+	t.is(reddit.writes, 1);
+	t.deepEqual(reasons, [
+		'add 2 notes, edit 1 note, delete 1 note via community app',
+	]);
+
+	const saved = new Usernotes(reddit.wiki.get('usernotes')!.content);
+	t.like(saved.get('userA'), [{text: 'brigade', moderatorUsername: 'appUser'}]);
+	t.like(saved.get('userB'), [{text: 'brigade', moderatorUsername: 'appUser'}]);
+	t.like(saved.get('someUser'), [{text: 'typo'}]);
+	t.is(saved.get('someUser').length, 1);
+});
+
+test('batchUsernotes: skip writing when nothing changes', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	const result = await toolbox.batchUsernotes('subreddit', [{
+		type: 'delete',
+		note: {username: 'x', moderatorUsername: 'y', timestamp: new Date()},
+	}]);
+	t.is(result.notFound.length, 1);
+	t.is(reddit.writes, 0);
+});
+
+test('repairUsernotes: only write when there is something to repair', async t => {
+	const initial = new Usernotes();
+	for (const username of ['someUser', 'someuser']) {
+		initial.add({
+			username,
+			text: 'note',
+			moderatorUsername: 'someMod',
+			timestamp: new Date(),
+		});
+	}
+	const reddit = fakeReddit({usernotes: initial.toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	const report = await toolbox.repairUsernotes('subreddit');
+	t.like(report.users, [{canonical: 'someUser', merged: ['someuser']}]);
+	t.is(reddit.writes, 1);
+
+	await toolbox.repairUsernotes('subreddit');
+	t.is(reddit.writes, 1);
+});
+
+test('getUsernotesHistory: report changes made by each revision', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit, {
+		loadWikiRevision: reddit.loadWikiRevision,
+	});
+	const note = {
+		username: 'someUser',
+		text: 'first',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(1000),
+	};
+	await toolbox.addUsernote('subreddit', note, 'add note');
+	await toolbox.editUsernote('subreddit', note, {text: 'edited'}, 'edit');
+	await toolbox.deleteUsernote('subreddit', note, 'delete note');
+
+	const history = await toolbox.getUsernotesHistory('subreddit', {limit: 3});
+	t.deepEqual(history.map(revision => revision.reason), [
+		'delete note',
+		'edit',
+		'add note',
+	]);
+	t.like(history[0], {
+		author: 'someMod',
+		users: [{username: 'someUser', added: [], modified: []}],
+	});
+	t.like(history[0]!.users[0]!.removed, [{text: 'edited'}]);
+	t.like(history[1]!.users[0]!.modified, [{
+		before: {text: 'first'},
+		after: {text: 'edited'},
+	}]);
+	t.like(history[2]!.users[0]!.added, [{text: 'first'}]);
+
+	t.deepEqual(
+		await toolbox.getUsernotesHistory('subreddit', {username: 'otherUser'}),
+		[
+			{...history[0]!, users: []},
+			{...history[1]!, users: []},
+			{...history[2]!, users: []},
+			{
+				revisionId: 'rev1',
+				author: 'someMod',
+				date: new Date(Date.UTC(2023, 0, 7)),
+				reason: '',
+				users: [],
+			},
+		],
+	);
+});
+
+test('getUsernotesHistory: require a way to load old revisions', async t => {
+	const reddit = fakeReddit({usernotes: new Usernotes().toString()});
+	const toolbox = new ToolboxClient(reddit);
+
+	await t.throwsAsync(toolbox.getUsernotesHistory('subreddit'), {
+		instanceOf: TypeError,
+	});
+});
+
+test('restoreUsernotesOnUser: restore one user from an old revision', async t => {
+	const initial = new Usernotes();
+	for (const [username, text, time] of [
+		['someUser', 'older', 1000],
+		['someUser', 'newer', 2000],
+		['otherUser', 'other', 3000],
+	] as const) {
+		initial.add({
+			username,
+			text,
+			moderatorUsername: 'someMod',
+			timestamp: new Date(time),
+		});
+	}
+	const reddit = fakeReddit({usernotes: initial.toString()});
+	const toolbox = new ToolboxClient(reddit, {
+		loadWikiRevision: reddit.loadWikiRevision,
+	});
+	await toolbox.deleteAllUsernotesOnUser('subreddit', 'someUser', 'oops');
+	await toolbox.deleteAllUsernotesOnUser('subreddit', 'otherUser', 'intended');
+
+	const restored = await toolbox.restoreUsernotesOnUser(
+		'subreddit',
+		'someUser',
+		'rev1',
+	);
+	t.deepEqual(restored.map(note => note.text), ['newer', 'older']);
+
+	const notes = await toolbox.getUsernotes('subreddit');
+	t.deepEqual(
+		notes.get('someUser').map(note => note.text),
+		['newer', 'older'],
+	);
+	t.deepEqual(notes.get('otherUser'), []);
+	t.is(
+		reddit.revisions[reddit.revisions.length - 1]!.reason,
+		'restore notes on /u/someUser via community app',
+	);
+});
+
+test('getUsernotesTimeline: combine notes from several subreddits', async t => {
+	const notesIn = (subreddit: string, times: number[]) => {
+		const notes = new Usernotes();
+		for (const time of times) {
+			notes.add({
+				username: 'someUser',
+				text: `${subreddit} ${time}`,
+				moderatorUsername: 'someMod',
+				timestamp: new Date(time * 1000),
+				noteType: 'ban',
+			});
+		}
+		notes.add({
+			username: 'otherUser',
+			text: 'not this user',
+			moderatorUsername: 'someMod',
+			timestamp: new Date(0),
+		});
+		return notes.toString();
+	};
+	const reddit = fakeReddit({
+		'usernotes': notesIn('subreddit', [1, 4]),
+		'second/usernotes': notesIn('second', [2, 3]),
+		'second/toolbox': JSON.stringify({
+			ver: 1,
+			usernoteColors: [{key: 'ban', color: 'red', text: 'Banned!'}],
+		}),
+		'private/usernotes': notesIn('private', [5]),
+	});
+	reddit.forbidden.add('private');
+	const toolbox = new ToolboxClient(reddit);
+
+	const timeline = await toolbox.getUsernotesTimeline(
+		['subreddit', 'second', 'private', 'missing'],
+		'SomeUser',
+	);
+	t.deepEqual(timeline.notes.map(note => note.text), [
+		'subreddit 4',
+		'second 3',
+		'second 2',
+		'subreddit 1',
+	]);
+	t.like(timeline.notes, [
+		{subreddit: 'subreddit', noteTypeDetails: {text: 'Ban'}},
+		{subreddit: 'second', noteTypeDetails: {text: 'Banned!'}},
+	]);
+	t.deepEqual(timeline.errors.map(({subreddit}) => subreddit), [
+		'private',
+		'missing',
+	]);
+	t.assert(timeline.errors[1]!.error instanceof WikiPageMissingError);
+
+	const everyone = await toolbox.getUsernotesTimeline(['subreddit']);
+	t.is(everyone.notes.length, 3);
+});
+
+test('copyUsernotes: merge notes and map note types', async t => {
+	const source = new Usernotes();
+	const destination = new Usernotes();
+	for (
+		const [noteType, day] of [
+			['ban', 1],
+			['renamed', 2],
+			['custom', 3],
+			['unknown', 4],
+			['ban', 5],
+		] as const
+	) {
+		source.add({
+			username: 'someUser',
+			text: `${noteType} ${day}`,
+			moderatorUsername: 'someMod',
+			timestamp: new Date(Date.UTC(2023, 0, day)),
+			noteType,
+		});
+	}
+	destination.add(source.get('someUser')[0]!);
+	const reddit = fakeReddit({
+		'old/usernotes': source.toString(),
+		'old/toolbox': JSON.stringify({
+			ver: 1,
+			usernoteColors: [
+				{key: 'ban', color: 'red', text: 'Ban'},
+				{key: 'renamed', color: 'green', text: 'Good Contributor'},
+				{key: 'custom', color: 'blue', text: 'Custom'},
+			],
+		}),
+		'usernotes': destination.toString(),
+	});
+	const toolbox = new ToolboxClient(reddit);
+
+	const result = await toolbox.copyUsernotes('old', 'subreddit', {
+		filter: {to: new Date(Date.UTC(2023, 0, 6))},
+		addMissingNoteTypes: true,
+		noteTypes: {unknown: 'spamwatch'},
+	});
+	t.deepEqual(result.added.map(note => note.noteType), [
+		'spamwatch',
+		'custom',
+		'gooduser',
+		'ban',
+	]);
+	t.like(result.duplicates, [{text: 'ban 5'}]);
+	t.deepEqual(result.remappedNoteTypes, {
+		renamed: 'gooduser',
+		unknown: 'spamwatch',
+	});
+	t.deepEqual(result.addedNoteTypes, ['custom']);
+	t.deepEqual(result.droppedNoteTypes, []);
+
+	// one write for the config, one for the notes
+	t.is(reddit.writes, 2);
+	const config = await toolbox.getConfig('subreddit');
+	t.like(config.getNoteType('custom'), {color: 'blue', text: 'Custom'});
+	const notes = await toolbox.getUsernotes('subreddit');
+	t.is(notes.get('someUser').length, 5);
+});
+
+test('copyUsernotes: drop unmatched note types unless asked to add them', async t => {
+	const source = new Usernotes();
+	source.add({
+		username: 'someUser',
+		text: 'note',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(1000),
+		noteType: 'custom',
+	});
+	const reddit = fakeReddit({
+		'old/usernotes': source.toString(),
+		'usernotes': new Usernotes().toString(),
+	});
+	const toolbox = new ToolboxClient(reddit);
+
+	const result = await toolbox.copyUsernotes('old', 'subreddit');
+	t.deepEqual(result.droppedNoteTypes, ['custom']);
+	t.is(result.added[0]!.noteType, undefined);
+	t.is(reddit.writes, 1);
 
-test.todo('addUsernote');
+	await toolbox.copyUsernotes('old', 'subreddit');
+	t.is(reddit.writes, 1);
+});
@@ -1,7 +1,40 @@
-import {RedditAPIClient, WikiPage} from '@devvit/public-api';
-import {Usernote, UsernoteInit} from '../types/Usernote';
+import {RedditAPIClient, WikiPageRevision} from '@devvit/public-api';
+import {diffUsernotes} from '../helpers/history';
+import {expandTokens} from '../helpers/tokens';
+import {WIKI_PAGE_SIZE_LIMIT} from '../helpers/usernotes';
+import {
+	CopyUsernotesOptions,
+	CopyUsernotesResult,
+	Usernote,
+	UsernoteBatchResult,
+	UsernoteIdentifier,
+	UsernoteInit,
+	UsernoteOperation,
+	UsernotesNormalizationReport,
+	UsernotesTimeline,
+	UsernotesParseOptions,
+	UsernotesPrunePolicy,
+	UsernoteUpdate,
+} from '../types/Usernote';
+import {ToolboxCacheOptions, WikiPageSnapshot} from '../types/Cache';
+import {
+	UsernotesHistoryOptions,
+	UsernotesRevisionChanges,
+	WikiRevisionLoader,
+} from '../types/History';
+import {ResolvedRemovalReasons} from '../types/RemovalReasons';
+import {ToolboxTokens} from '../types/Tokens';
+import {
+	RemovalReasonsSourceError,
+	UsernoteNotFoundError,
+	UsernotesConflictError,
+	WikiPageMissingError,
+	WikiPermissionError,
+	WikiSizeLimitError,
+} from './errors';
 import {SubredditConfig} from './SubredditConfig';
 import {Usernotes} from './Usernotes';
+import {WikiPageCache} from './WikiPageCache';
 
 /** The name of the wiki page where Toolbox stores usernotes. */
 const TB_USERNOTES_PAGE = 'usernotes';
@@ -9,6 +42,162 @@ const TB_USERNOTES_PAGE = 'usernotes';
 /** The name of the wiki page where Toolbox stores subreddit configuration. */
 const TB_CONFIG_PAGE = 'toolbox';
 
+/**
+ * The number of times a usernotes write is retried by default after finding
+ * that the page was changed by someone else.
+ */
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * The number of other subreddits followed by default when a subreddit gets its
+ * removal reasons from elsewhere.
+ */
+const DEFAULT_MAX_REMOVAL_REASONS_DEPTH = 5;
+
+/** The number of usernotes revisions looked at by default. */
+const DEFAULT_HISTORY_LIMIT = 10;
+
+/** Options for creating a {@linkcode ToolboxClient}. */
+export interface ToolboxClientOptions {
+	/**
+	 * If given, usernotes and subreddit config read by the client are cached
+	 * according to these options, so repeated reads don't download the same
+	 * pages over and over and unchanged pages aren't parsed again. Pass an
+	 * empty object to use the default in-memory cache, which is shared by
+	 * every client in the same process. Writes made through the client always
+	 * clear the affected pages from the cache.
+	 */
+	cache?: ToolboxCacheOptions;
+	/**
+	 * Options for reading usernotes, used whenever the client reads them. Set
+	 * `lenient: true` to keep working when some notes are invalid.
+	 */
+	usernotesParsing?: UsernotesParseOptions;
+	/**
+	 * Loads the contents of old wiki revisions. Required for reading usernotes
+	 * history, since Devvit can't do it on its own.
+	 */
+	loadWikiRevision?: WikiRevisionLoader;
+}
+
+/** Options for writing usernotes back to the wiki. */
+export interface WriteUsernotesOptions {
+	/**
+	 * A function which applies the pending changes to a {@linkcode Usernotes}
+	 * instance. If the wiki page was modified by someone else since the notes
+	 * were read, the latest version of the page is read again and this
+	 * function is called on it before retrying the write. If omitted, any
+	 * conflict causes the write to fail immediately.
+	 */
+	reapply?: (notes: Usernotes) => void;
+	/**
+	 * The maximum number of times to retry the write after a conflict before
+	 * giving up with a {@linkcode UsernotesConflictError}. Defaults to 3.
+	 */
+	maxRetries?: number;
+	/**
+	 * Rules for removing notes before saving, applied every time the notes
+	 * are about to be written.
+	 */
+	prune?: UsernotesPrunePolicy;
+}
+
+/** Options for banning a user with {@linkcode ToolboxClient.banUser}. */
+export interface ToolboxBanOptions {
+	/** Name of the subreddit to ban the user from */
+	subreddit: string;
+	/** Name of the user to ban */
+	username: string;
+	/** Length of the ban in days; if omitted, the ban is permanent */
+	duration?: number;
+	/** The ban reason shown in the subreddit's banned users list */
+	reason?: string;
+	/**
+	 * The mod-only ban note, defaulting to the subreddit's default ban note
+	 * (may include tokens)
+	 */
+	note?: string;
+	/**
+	 * The message sent to the user, defaulting to the subreddit's default ban
+	 * message (may include tokens)
+	 */
+	message?: string;
+	/** The fullname of the post or comment the user is being banned for */
+	context?: string;
+	/**
+	 * Values for tokens used in the note and message. `author`, `subreddit`,
+	 * and `mod` are filled in automatically if not given.
+	 */
+	tokens?: ToolboxTokens;
+	/**
+	 * If given, a usernote of type `ban` (or `permban` for permanent bans) is
+	 * also left on the user. Its text defaults to the ban note, or to a
+	 * description of the ban if there's no ban note.
+	 */
+	usernote?: {
+		/** The text of the note */
+		text?: string;
+		/** Permalink to the item the user is being banned for */
+		contextPermalink?: string;
+		/** Wiki revision reason to send */
+		reason?: string;
+	};
+}
+
+/**
+ * Describes the changes made by a batch of usernote operations, for use in
+ * wiki revision reasons.
+ */
+function describeBatchResult (result: UsernoteBatchResult) {
+	return [
+		['add', result.added],
+		['edit', result.edited],
+		['delete', result.deleted],
+	]
+		.filter(([, count]) => count)
+		.map(([verb, count]) => `${verb} ${count} note${count === 1 ? '' : 's'}`)
+		.join(', ');
+}
+
+/**
+ * Converts an error thrown by Devvit while accessing a wiki page into one of
+ * our own error types, if it's recognizable as one. Devvit doesn't give us
+ * structured errors, so this goes by the error message.
+ * @param error The error thrown by Devvit
+ * @param subreddit The subreddit the page is in
+ * @param page The name of the page
+ * @param operation Whether the page was being read or written
+ * @returns The converted error, or the original error if it wasn't recognized
+ */
+function translateWikiError (
+	error: unknown,
+	subreddit: string,
+	page: string,
+	operation: 'read' | 'write',
+): unknown {
+	const message = error instanceof Error ? error.message : String(error);
+	if (
+		/\b403\b|forbidden|permission|MAY_NOT_VIEW|WIKI_DISABLED/i.test(message)
+	) {
+		return new WikiPermissionError(subreddit, page, operation, error);
+	}
+	if (
+		operation === 'read'
+		&& /\b404\b|not found|PAGE_NOT_(?:FOUND|CREATED)/i.test(message)
+	) {
+		return new WikiPageMissingError(subreddit, page, error);
+	}
+	return error;
+}
+
+/**
+ * Strips any leading `/r/` or `r/` from a subreddit name, since moderators
+ * write references to other subreddits both ways.
+ */
+function normalizeSubredditName (name: string) {
+	return name.trim().replace(/^\/?r\//i, '');
+}
+
 /**
  * A client class for interfacing with Toolbox functionality and stored data
  * from within the Devvit platform. Wraps the Reddit API client provided in
@@ -54,14 +243,146 @@ const TB_CONFIG_PAGE = 'toolbox';
 export class ToolboxClient {
 	reddit: RedditAPIClient;
 
+	/**
+	 * The wiki revision ID each {@linkcode Usernotes} instance returned by this
+	 * client was read from, used to detect conflicting writes.
+	 */
+	private usernotesRevisions = new WeakMap<Usernotes, string>();
+
+	/** Cache of wiki pages read by this client, if caching is enabled. */
+	private cache?: WikiPageCache;
+
+	/** Options used for reading usernotes. */
+	private usernotesParseOptions: UsernotesParseOptions;
+
+	/** Loads the contents of old wiki revisions, if the app provided a way. */
+	private loadWikiRevision?: WikiRevisionLoader;
+
 	/**
 	 * Creates a Toolbox client. Do this at the top of event handlers, where you
 	 * passing `reddit` from the event context. Make sure you've called
 	 * `Devvit.configure({redditAPI: true})` as well!
 	 * @param redditClient Your {@linkcode RedditAPIClient} instance
+	 * @param options Options for the client, e.g. to enable caching
+	 *
+	 * @example Cache pages in Redis so they're shared between event handlers:
+	 * ```ts
+	 * Devvit.configure({redditAPI: true, redis: true});
+	 *
+	 * // in an event handler:
+	 * const toolbox = new ToolboxClient(context.reddit, {
+	 * 	cache: {storage: context.redis, ttl: 60 * 1000},
+	 * });
+	 * ```
 	 */
-	constructor (redditClient) {
+	constructor (redditClient, options: ToolboxClientOptions = {}) {
 		this.reddit = redditClient;
+		if (options.cache) {
+			this.cache = new WikiPageCache(redditClient, options.cache);
+		}
+		this.usernotesParseOptions = options.usernotesParsing ?? {};
+		this.loadWikiRevision = options.loadWikiRevision;
+	}
+
+	/**
+	 * Reads a wiki page, using the cache if it's enabled.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @returns Promise which resolves to the page contents and revision
+	 */
+	private async readPage (
+		subreddit: string,
+		page: string,
+	): Promise<WikiPageSnapshot> {
+		const cached = await this.cache?.get(subreddit, page);
+		if (cached) {
+			return cached;
+		}
+
+		const snapshot = await this.fetchPage(subreddit, page);
+		await this.cache?.set(subreddit, page, snapshot);
+		return snapshot;
+	}
+
+	/**
+	 * Parses a wiki page. If caching is enabled, each revision of the page is
+	 * only parsed once, and a copy of the parsed page is returned each time.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @param snapshot The page contents and the revision they're from
+	 * @param variant Distinguishes different ways of parsing the same page
+	 * @param parse Parses the page contents
+	 * @returns The parsed page
+	 */
+	private parsePage<T extends {clone (): T}> (
+		subreddit: string,
+		page: string,
+		snapshot: WikiPageSnapshot,
+		variant: string,
+		parse: (content: string) => T,
+	): T {
+		if (!this.cache) {
+			return parse(snapshot.content);
+		}
+		return this.cache.getParsed(subreddit, page, snapshot, variant, parse)
+			.clone();
+	}
+
+	/**
+	 * Reads a wiki page directly from Reddit, bypassing the cache.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @returns Promise which resolves to the page contents and revision, or
+	 * rejects with a {@linkcode WikiPageMissingError} or
+	 * {@linkcode WikiPermissionError} if the page can't be read
+	 */
+	private async fetchPage (
+		subreddit: string,
+		page: string,
+	): Promise<WikiPageSnapshot> {
+		try {
+			const wikiPage = await this.reddit.getWikiPage(subreddit, page);
+			return {
+				content: wikiPage.content,
+				revisionId: wikiPage.revisionId,
+			};
+		} catch (error) {
+			throw translateWikiError(error, subreddit, page, 'read');
+		}
+	}
+
+	/**
+	 * Writes a wiki page, refusing content that's too large to save.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @param content New contents of the page
+	 * @param reason Wiki revision reason to send
+	 * @returns Promise which resolves to the ID of the new revision, or
+	 * rejects with a {@linkcode WikiSizeLimitError} or
+	 * {@linkcode WikiPermissionError} if the page can't be written
+	 */
+	private async writePage (
+		subreddit: string,
+		page: string,
+		content: string,
+		reason: string,
+	): Promise<string> {
+		const size = Buffer.byteLength(content);
+		if (size > WIKI_PAGE_SIZE_LIMIT) {
+			throw new WikiSizeLimitError(page, size, WIKI_PAGE_SIZE_LIMIT);
+		}
+
+		try {
+			const wikiPage = await this.reddit.updateWikiPage({
+				subredditName: subreddit,
+				page,
+				content,
+				reason,
+			});
+			return wikiPage.revisionId;
+		} catch (error) {
+			throw translateWikiError(error, subreddit, page, 'write');
+		}
 	}
 
 	/**
@@ -72,8 +393,16 @@ export class ToolboxClient {
 	 * containing the notes, or rejects on error
 	 */
 	async getUsernotes (subreddit: string): Promise<Usernotes> {
-		const page = await this.reddit.getWikiPage(subreddit, TB_USERNOTES_PAGE);
-		return new Usernotes(page.content);
+		const page = await this.readPage(subreddit, TB_USERNOTES_PAGE);
+		const notes = this.parsePage(
+			subreddit,
+			TB_USERNOTES_PAGE,
+			page,
+			this.usernotesParseOptions.lenient ? 'lenient' : 'strict',
+			content => new Usernotes(content, this.usernotesParseOptions),
+		);
+		this.usernotesRevisions.set(notes, page.revisionId);
+		return notes;
 	}
 
 	/**
@@ -92,23 +421,153 @@ export class ToolboxClient {
 	}
 
 	/**
-	 * Saves usernotes from a {@linkcode Usernotes} instance to a subreddit.
+	 * Gets the usernotes from several subreddits at once, combined into a
+	 * single timeline. Each note is tagged with the subreddit it's from, and
+	 * its note type is looked up in that subreddit's config. Subreddits are
+	 * loaded concurrently; ones that fail to load are reported in the result's
+	 * `errors` instead of rejecting the whole call.
+	 * @param subreddits Names of the subreddits to get notes from
+	 * @param username If given, only notes on this user are included
+	 * @returns Promise which resolves to the combined notes, newest first, and
+	 * any errors
+	 */
+	async getUsernotesTimeline (
+		subreddits: string[],
+		username?: string,
+	): Promise<UsernotesTimeline> {
+		const results = await Promise.all(subreddits.map(async subreddit => {
+			try {
+				const [notes, config] = await Promise.all([
+					this.getUsernotes(subreddit),
+					this.getConfig(subreddit),
+				]);
+				const found = username == null
+					? [...notes.notes()]
+					: notes.query({username}).notes;
+				return found.map(note => ({
+					...note,
+					subreddit,
+					noteTypeDetails: note.noteType == null
+						? undefined
+						: config.getNoteType(note.noteType),
+				}));
+			} catch (error) {
+				return {subreddit, error};
+			}
+		}));
+
+		const timeline: UsernotesTimeline = {notes: [], errors: []};
+		for (const result of results) {
+			if (Array.isArray(result)) {
+				timeline.notes.push(...result);
+			} else {
+				timeline.errors.push(result);
+			}
+		}
+		// sort is stable, so notes at the same time stay in subreddit order
+		timeline.notes.sort((a, b) => +b.timestamp - +a.timestamp);
+		return timeline;
+	}
+
+	/**
+	 * Saves usernotes from a {@linkcode Usernotes} instance to a subreddit. If
+	 * the notes were read through this client, the wiki page is first checked
+	 * to make sure nobody else has changed it in the meantime. On conflict, the
+	 * latest notes are read again and `options.reapply` is used to redo the
+	 * pending changes before retrying. Notes are pruned according to
+	 * `options.prune` before being written, and nothing is written if the page
+	 * would be too large for the wiki.
 	 * @param subreddit Name of the subreddit to save notes to
 	 * @param notes Object containing all the subreddit's notes
 	 * @param reason Wiki revision reason to send
-	 * @param metadata Context metadata passed to Reddit API client calls
-	 * @returns Promise which resolves on success or rejects on error
+	 * @param options Options for handling conflicting writes
+	 * @returns Promise which resolves to the {@linkcode Usernotes} instance that
+	 * was actually saved (which differs from `notes` if the write was retried),
+	 * or rejects with a {@linkcode WikiSizeLimitError} if the notes are too
+	 * large to save
 	 */
 	async writeUsernotes (
 		subreddit: string,
 		notes: Usernotes,
 		reason: string | undefined,
-	): Promise<void> {
-		await this.reddit.updateWikiPage({
-			subredditName: subreddit,
-			page: TB_USERNOTES_PAGE,
-			content: notes.toString(),
-			reason: reason || `modify notes via community app`,
+		options: WriteUsernotesOptions = {},
+	): Promise<Usernotes> {
+		const maxRetries = options.maxRetries ?? DEFAULT_MAX_CONFLICT_RETRIES;
+
+		for (let attempt = 1;; attempt += 1) {
+			// If we know what revision these notes were read from, make sure
+			// it's still the latest one before we overwrite anything. Devvit
+			// gives us no way to make the write itself conditional, so this
+			// can't rule out conflicts entirely, but it narrows the window to
+			// a single request.
+			const expectedRevisionId = this.usernotesRevisions.get(notes);
+			if (expectedRevisionId !== undefined) {
+				const current = await this.fetchPage(
+					subreddit,
+					TB_USERNOTES_PAGE,
+				);
+				if (current.revisionId !== expectedRevisionId) {
+					// whatever we had cached is out of date now
+					await this.cache?.invalidate(subreddit, TB_USERNOTES_PAGE);
+					if (!options.reapply || attempt > maxRetries) {
+						throw new UsernotesConflictError(
+							subreddit,
+							expectedRevisionId,
+							current.revisionId,
+							attempt,
+						);
+					}
+					notes = new Usernotes(
+						current.content,
+						this.usernotesParseOptions,
+					);
+					this.usernotesRevisions.set(notes, current.revisionId);
+					options.reapply(notes);
+					continue;
+				}
+			}
+
+			if (options.prune) {
+				await notes.prune(options.prune);
+			}
+			const revisionId = await this.writePage(
+				subreddit,
+				TB_USERNOTES_PAGE,
+				notes.toString(),
+				reason || `modify notes via community app`,
+			);
+			this.usernotesRevisions.set(notes, revisionId);
+			await this.cache?.invalidate(subreddit, TB_USERNOTES_PAGE);
+			return notes;
+		}
+	}
+
+	/**
+	 * Reads a subreddit's usernotes, applies changes to them, and saves them
+	 * back, redoing the changes on top of the latest notes if someone else
+	 * modifies the page in the meantime.
+	 * @param subreddit Name of the subreddit to modify notes in
+	 * @param modify Function which applies the changes to a
+	 * {@linkcode Usernotes} instance. May be called more than once. If it
+	 * returns `false` the first time it's called, nothing is written.
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves to the {@linkcode Usernotes} instance that
+	 * was saved, or rejects on error
+	 */
+	async updateUsernotes (
+		subreddit: string,
+		modify: (notes: Usernotes) => boolean | void,
+		reason: string | undefined,
+		maxRetries?: number,
+	): Promise<Usernotes> {
+		const notes = await this.getUsernotes(subreddit);
+		if (modify(notes) === false) {
+			return notes;
+		}
+		return this.writeUsernotes(subreddit, notes, reason, {
+			reapply: modify,
+			maxRetries,
 		});
 	}
 
@@ -117,13 +576,14 @@ export class ToolboxClient {
 	 * @param subreddit Name of the subreddit to create the note in
 	 * @param note Details about the usernote to create
 	 * @param reason Wiki revision reason to send
-	 * @param metadata Context metadata passed to Reddit API client calls
+	 * @param maxRetries The maximum number of times to retry after a conflict
 	 * @returns Promise which resolves on success or rejects on error
 	 */
 	async addUsernote (
 		subreddit: string,
 		note: UsernoteInit,
 		reason: string | undefined,
+		maxRetries?: number,
 	): Promise<void> {
 		if (!note.timestamp) {
 			note.timestamp = new Date();
@@ -135,29 +595,609 @@ export class ToolboxClient {
 			reason = `create new note on user ${note.username} via community app`;
 		}
 
+		await this.updateUsernotes(
+			subreddit,
+			notes => notes.add(note as Usernote),
+			reason,
+			maxRetries,
+		);
+	}
+
+	/**
+	 * Deletes a usernote.
+	 * @param subreddit Name of the subreddit to delete the note from
+	 * @param note Identifies the note to delete; can be the note itself
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves on success, or rejects with a
+	 * {@linkcode UsernoteNotFoundError} if the note doesn't exist
+	 */
+	async deleteUsernote (
+		subreddit: string,
+		note: UsernoteIdentifier,
+		reason: string | undefined,
+		maxRetries?: number,
+	): Promise<void> {
+		if (reason === undefined) {
+			reason = `delete note on user ${note.username} via community app`;
+		}
+
+		await this.updateUsernotes(subreddit, notes => {
+			if (!notes.remove(note)) {
+				throw new UsernoteNotFoundError(note);
+			}
+		}, reason, maxRetries);
+	}
+
+	/**
+	 * Edits a usernote.
+	 * @param subreddit Name of the subreddit the note is in
+	 * @param note Identifies the note to edit; can be the note itself
+	 * @param changes The properties of the note to change
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves on success, or rejects with a
+	 * {@linkcode UsernoteNotFoundError} if the note doesn't exist
+	 */
+	async editUsernote (
+		subreddit: string,
+		note: UsernoteIdentifier,
+		changes: UsernoteUpdate,
+		reason: string | undefined,
+		maxRetries?: number,
+	): Promise<void> {
+		if (reason === undefined) {
+			reason = `edit note on user ${note.username} via community app`;
+		}
+
+		await this.updateUsernotes(subreddit, notes => {
+			if (!notes.update(note, changes)) {
+				throw new UsernoteNotFoundError(note);
+			}
+		}, reason, maxRetries);
+	}
+
+	/**
+	 * Deletes all usernotes on a user. Nothing is written if the user has no
+	 * notes.
+	 * @param subreddit Name of the subreddit to delete the notes from
+	 * @param username Username to delete all notes of
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves to the number of notes deleted, or
+	 * rejects on error
+	 */
+	async deleteAllUsernotesOnUser (
+		subreddit: string,
+		username: string,
+		reason: string | undefined,
+		maxRetries?: number,
+	): Promise<number> {
+		if (reason === undefined) {
+			reason = `delete all notes on user ${username} via community app`;
+		}
+
+		let count = 0;
+		await this.updateUsernotes(subreddit, notes => {
+			count = notes.removeAllForUser(username);
+			return count > 0;
+		}, reason, maxRetries);
+		return count;
+	}
+
+	/**
+	 * Makes several usernote changes at once, saving them to the wiki in a
+	 * single revision. Edits and deletions of notes that don't exist are
+	 * skipped and listed in the result instead of failing the whole batch.
+	 * Nothing is written if no changes could be made.
+	 * @param subreddit Name of the subreddit to change notes in
+	 * @param operations The changes to make, in order
+	 * @param reason Wiki revision reason to send, defaulting to a summary of
+	 * the changes
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves to a summary of the changes made, or
+	 * rejects on error
+	 *
+	 * @example Leave the same note on several users:
+	 * ```ts
+	 * await toolbox.batchUsernotes(subreddit, usernames.map(username => ({
+	 * 	type: 'add',
+	 * 	note: {username, text: 'Participated in brigade', noteType: 'abusewarn'},
+	 * })));
+	 * ```
+	 */
+	async batchUsernotes (
+		subreddit: string,
+		operations: UsernoteOperation[],
+		reason?: string,
+		maxRetries?: number,
+	): Promise<UsernoteBatchResult> {
+		// Fill in defaults for new notes once, so every attempt adds the same
+		// notes if we have to retry
+		let appUsername: string | undefined;
+		for (const operation of operations) {
+			if (operation.type !== 'add') {
+				continue;
+			}
+			if (!operation.note.timestamp) {
+				operation.note.timestamp = new Date();
+			}
+			if (!operation.note.moderatorUsername) {
+				if (appUsername === undefined) {
+					appUsername = (await this.reddit.getAppUser()).username;
+				}
+				operation.note.moderatorUsername = appUsername;
+			}
+		}
+
+		let result!: UsernoteBatchResult;
+		const applyOperations = (notes: Usernotes) => {
+			result = {added: 0, edited: 0, deleted: 0, notFound: []};
+			for (const operation of operations) {
+				if (operation.type === 'add') {
+					notes.add({...operation.note} as Usernote);
+					result.added += 1;
+				} else if (operation.type === 'edit') {
+					if (notes.update(operation.note, operation.changes)) {
+						result.edited += 1;
+					} else {
+						result.notFound.push(operation);
+					}
+				} else if (notes.remove(operation.note)) {
+					result.deleted += 1;
+				} else {
+					result.notFound.push(operation);
+				}
+			}
+			return result.added + result.edited + result.deleted > 0;
+		};
+
+		// The default reason summarizes what we did, so we can only figure it
+		// out once we've tried applying the changes
 		const notes = await this.getUsernotes(subreddit);
-		notes.add(note as Usernote);
-		await this.writeUsernotes(subreddit, notes, reason);
+		if (!applyOperations(notes)) {
+			return result;
+		}
+		await this.writeUsernotes(
+			subreddit,
+			notes,
+			reason ?? `${describeBatchResult(result)} via community app`,
+			{reapply: applyOperations, maxRetries},
+		);
+		return result;
 	}
 
 	/**
-	 * Retrieves toolbox configuration for a subreddit.
-	 * @param subreddit Name of the subreddit to retrieve config for
+	 * Repairs a subreddit's usernotes by merging usernames and moderator names
+	 * which differ only by case, as described in
+	 * {@linkcode Usernotes.normalizeUsernames}. Nothing is written if there's
+	 * nothing to repair.
+	 * @param subreddit Name of the subreddit to repair notes in
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves to details about what was merged, or
+	 * rejects on error
+	 */
+	async repairUsernotes (
+		subreddit: string,
+		reason?: string,
+		maxRetries?: number,
+	): Promise<UsernotesNormalizationReport> {
+		if (reason === undefined) {
+			reason = 'merge differently-cased usernames via community app';
+		}
+
+		let report!: UsernotesNormalizationReport;
+		await this.updateUsernotes(subreddit, notes => {
+			report = notes.normalizeUsernames();
+			return report.users.length + report.moderators.length > 0;
+		}, reason, maxRetries);
+		return report;
+	}
+
+	/**
+	 * Copies usernotes from one subreddit to another, e.g. when moving to a new
+	 * subreddit. Notes already in the destination aren't copied again. Note
+	 * types that don't exist in the destination are matched up by label, added
+	 * to the destination config if `options.addMissingNoteTypes` is set, or
+	 * dropped otherwise. All notes are saved in a single wiki revision; if any
+	 * note types are added, the destination config is saved first.
+	 * @param from Name of the subreddit to copy notes from
+	 * @param to Name of the subreddit to copy notes to
+	 * @param options Options for which notes to copy and how to map their types
+	 * @returns Promise which resolves to details about what was copied
+	 */
+	async copyUsernotes (
+		from: string,
+		to: string,
+		options: CopyUsernotesOptions = {},
+	): Promise<CopyUsernotesResult> {
+		const [source, sourceConfig, destinationConfig] = await Promise.all([
+			this.getUsernotes(from),
+			this.getConfig(from),
+			this.getConfig(to),
+		]);
+		const {notes: sourceNotes} = source.query(options.filter);
+
+		// Work out which destination note type each source note type becomes
+		const result: CopyUsernotesResult = {
+			added: [],
+			duplicates: [],
+			remappedNoteTypes: {},
+			addedNoteTypes: [],
+			droppedNoteTypes: [],
+		};
+		const typeMapping = new Map<string, string | undefined>();
+		for (const {noteType: key} of sourceNotes) {
+			if (key == null || typeMapping.has(key)) {
+				continue;
+			}
+			const sourceType = sourceConfig.getNoteType(key);
+			const label = (sourceType?.text ?? key).toLowerCase();
+			let mapped = options.noteTypes?.[key];
+			if (mapped == null && destinationConfig.getNoteType(key)) {
+				mapped = key;
+			}
+			if (mapped == null) {
+				mapped = destinationConfig.getAllNoteTypes()
+					.find(noteType => noteType.text.toLowerCase() === label)?.key;
+			}
+			if (mapped == null && options.addMissingNoteTypes) {
+				destinationConfig.addNoteType(sourceType
+					? {...sourceType}
+					: {key, color: 'gray', text: key});
+				result.addedNoteTypes.push(key);
+				mapped = key;
+			}
+
+			typeMapping.set(key, mapped);
+			if (mapped == null) {
+				result.droppedNoteTypes.push(key);
+			} else if (mapped !== key) {
+				result.remappedNoteTypes[key] = mapped;
+			}
+		}
+
+		const copies = sourceNotes.map(note => {
+			const copy = {...note};
+			if (note.noteType != null) {
+				copy.noteType = typeMapping.get(note.noteType);
+			}
+			return copy;
+		});
+
+		if (result.addedNoteTypes.length) {
+			await this.writeConfig(
+				to,
+				destinationConfig,
+				`add note types copied from /r/${from} via community app`,
+			);
+		}
+		let reason = options.reason;
+		if (!reason) {
+			reason = `copy notes from /r/${from} via community app`;
+		}
+		await this.updateUsernotes(to, notes => {
+			const {added, duplicates} = notes.merge(copies);
+			result.added = added;
+			result.duplicates = duplicates;
+			return added.length > 0;
+		}, reason, options.maxRetries);
+		return result;
+	}
+
+	/**
+	 * Reads a subreddit's usernotes as of an older wiki revision.
+	 * @param subreddit Name of the subreddit to read notes from
+	 * @param revisionId ID of the revision to read
+	 * @returns Promise which resolves to the notes at that revision
+	 */
+	private async getUsernotesAtRevision (
+		subreddit: string,
+		revisionId: string,
+	): Promise<Usernotes> {
+		if (!this.loadWikiRevision) {
+			throw new TypeError(
+				'Reading old usernotes requires the loadWikiRevision client option',
+			);
+		}
+		const content = await this.loadWikiRevision(
+			subreddit,
+			TB_USERNOTES_PAGE,
+			revisionId,
+		);
+		return new Usernotes(content, this.usernotesParseOptions);
+	}
+
+	/**
+	 * Reads the recent revisions of a subreddit's usernotes page and works out
+	 * which notes each revision added, removed, or modified. Requires the
+	 * {@linkcode ToolboxClientOptions.loadWikiRevision} client option.
+	 * @param subreddit Name of the subreddit to read the history of
+	 * @param options Options for which revisions and notes to look at
+	 * @returns Promise which resolves to the changes made by each revision,
+	 * newest first
+	 *
+	 * @example Find out who removed a note:
+	 * ```ts
+	 * const history = await toolbox.getUsernotesHistory(subreddit, {
+	 * 	username: 'someUser',
+	 * });
+	 * const removal = history.find(revision =>
+	 * 	revision.users.some(user => user.removed.length)
+	 * );
+	 * console.log(removal?.author, removal?.date);
+	 * ```
+	 */
+	async getUsernotesHistory (
+		subreddit: string,
+		options: UsernotesHistoryOptions = {},
+	): Promise<UsernotesRevisionChanges[]> {
+		// Get one revision more than we report on, so the oldest revision we
+		// report on has something to be compared to
+		const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+		let revisions: WikiPageRevision[];
+		try {
+			revisions = await this.reddit.getWikiPageRevisions({
+				subredditName: subreddit,
+				page: TB_USERNOTES_PAGE,
+				limit: limit + 1,
+			}).get(limit + 1);
+		} catch (error) {
+			throw translateWikiError(
+				error,
+				subreddit,
+				TB_USERNOTES_PAGE,
+				'read',
+			);
+		}
+
+		// If we got every revision there is, the oldest one created the page
+		let previous = revisions.length > limit
+			? await this.getUsernotesAtRevision(subreddit, revisions.pop()!.id)
+			: new Usernotes();
+		const history: UsernotesRevisionChanges[] = [];
+		for (const revision of revisions.reverse()) {
+			const notes = await this.getUsernotesAtRevision(
+				subreddit,
+				revision.id,
+			);
+			history.unshift({
+				revisionId: revision.id,
+				author: revision.author?.username,
+				date: revision.date,
+				reason: revision.reason,
+				users: diffUsernotes(previous, notes, options.username),
+			});
+			previous = notes;
+		}
+		return history;
+	}
+
+	/**
+	 * Replaces the notes on a user with the notes they had as of an older
+	 * revision of the usernotes page. Notes on other users aren't affected.
+	 * Requires the {@linkcode ToolboxClientOptions.loadWikiRevision} client
+	 * option.
+	 * @param subreddit Name of the subreddit to restore notes in
+	 * @param username Name of the user whose notes to restore
+	 * @param revisionId ID of the revision to restore the notes from, e.g. from
+	 * {@linkcode getUsernotesHistory}
+	 * @param reason Wiki revision reason to send
+	 * @param maxRetries The maximum number of times to retry after a conflict
+	 * @returns Promise which resolves to the restored notes
+	 */
+	async restoreUsernotesOnUser (
+		subreddit: string,
+		username: string,
+		revisionId: string,
+		reason?: string,
+		maxRetries?: number,
+	): Promise<Usernote[]> {
+		const restoredNotes = (
+			await this.getUsernotesAtRevision(subreddit, revisionId)
+		).get(username);
+		if (!reason) {
+			reason = `restore notes on /u/${username} via community app`;
+		}
+
+		await this.updateUsernotes(subreddit, notes => {
+			notes.removeAllForUser(username);
+			// notes are added to the front of the list, so go oldest-first
+			for (const note of [...restoredNotes].reverse()) {
+				notes.add({...note});
+			}
+		}, reason, maxRetries);
+		return restoredNotes;
+	}
+
+	/**
+	 * Reads the raw toolbox configuration page of a subreddit.
+	 * @param subreddit Name of the subreddit to read the page of
+	 * @returns Promise which resolves to the page, or to `undefined` if the
+	 * subreddit has no config page
 	 */
-	async getConfig (subreddit: string) {
-		let page: WikiPage | undefined;
+	private async readConfigPage (
+		subreddit: string,
+	): Promise<WikiPageSnapshot | undefined> {
 		try {
-			page = await this.reddit.getWikiPage(subreddit, TB_CONFIG_PAGE);
+			return await this.readPage(subreddit, TB_CONFIG_PAGE);
 		} catch (error) {
+			if (error instanceof WikiPermissionError) {
+				throw error;
+			}
 			// Devvit throws an error when page is not present, but also
 			// sometimes for other reasons. Check if the page actually
 			// exists; if it doesn't we'll use the default config, but if it
 			// does then something else is wrong and we'll rethrow the error.
-			const allPages = await this.reddit.getWikiPages(subreddit);
+			let allPages: string[];
+			try {
+				allPages = await this.reddit.getWikiPages(subreddit);
+			} catch (listError) {
+				throw translateWikiError(
+					listError,
+					subreddit,
+					TB_CONFIG_PAGE,
+					'read',
+				);
+			}
 			if (allPages.includes(TB_CONFIG_PAGE)) {
 				throw error;
 			}
+			return undefined;
+		}
+	}
+
+	/**
+	 * Retrieves toolbox configuration for a subreddit.
+	 * @param subreddit Name of the subreddit to retrieve config for
+	 */
+	async getConfig (subreddit: string): Promise<SubredditConfig> {
+		const page = await this.readConfigPage(subreddit);
+		if (!page) {
+			return new SubredditConfig();
+		}
+		return this.parsePage(
+			subreddit,
+			TB_CONFIG_PAGE,
+			page,
+			'config',
+			content => new SubredditConfig(content),
+		);
+	}
+
+	/**
+	 * Retrieves the removal reasons a subreddit actually uses. If the
+	 * subreddit's config says to get removal reasons from another subreddit
+	 * (via `removalReasons.getfrom`), that subreddit's removal reason settings
+	 * are loaded instead, following further redirects as needed.
+	 * @param subreddit Name of the subreddit to retrieve removal reasons for
+	 * @param maxDepth The maximum number of other subreddits to follow
+	 * @returns Promise which resolves to the effective removal reason settings
+	 * and where they came from, or rejects with a
+	 * {@linkcode RemovalReasonsSourceError} if they can't be loaded
+	 */
+	async getEffectiveRemovalReasons (
+		subreddit: string,
+		maxDepth = DEFAULT_MAX_REMOVAL_REASONS_DEPTH,
+	): Promise<ResolvedRemovalReasons> {
+		const chain = [subreddit];
+		let settings = (await this.getConfig(subreddit))
+			.getRemovalReasonSettings();
+
+		let source: string;
+		while ((source = normalizeSubredditName(settings.getfrom || ''))) {
+			if (
+				chain.some(name => name.toLowerCase() === source.toLowerCase())
+			) {
+				throw new RemovalReasonsSourceError('cycle', [...chain, source]);
+			}
+			if (chain.length > maxDepth) {
+				throw new RemovalReasonsSourceError('depth', [...chain, source]);
+			}
+			chain.push(source);
+
+			let page: WikiPageSnapshot | undefined;
+			try {
+				page = await this.readConfigPage(source);
+			} catch (error) {
+				throw new RemovalReasonsSourceError('inaccessible', chain, error);
+			}
+			if (!page) {
+				throw new RemovalReasonsSourceError('missing', chain);
+			}
+			settings = new SubredditConfig(page.content)
+				.getRemovalReasonSettings();
+		}
+
+		return {
+			settings,
+			source: chain[chain.length - 1]!,
+			chain,
+		};
+	}
+
+	/**
+	 * Saves toolbox configuration from a {@linkcode SubredditConfig} instance
+	 * to a subreddit.
+	 * @param subreddit Name of the subreddit to save config to
+	 * @param config The subreddit's configuration
+	 * @param reason Wiki revision reason to send
+	 * @returns Promise which resolves on success, or rejects with a
+	 * {@linkcode WikiSizeLimitError} if the config is too large to save
+	 */
+	async writeConfig (
+		subreddit: string,
+		config: SubredditConfig,
+		reason: string | undefined,
+	): Promise<void> {
+		await this.writePage(
+			subreddit,
+			TB_CONFIG_PAGE,
+			config.toString(),
+			reason || `modify toolbox config via community app`,
+		);
+		await this.cache?.invalidate(subreddit, TB_CONFIG_PAGE);
+	}
+
+	/**
+	 * Bans a user the same way the Toolbox mod button does, using the
+	 * subreddit's default ban note and message unless others are given, and
+	 * optionally leaving a matching usernote.
+	 * @param options Details about the ban
+	 * @returns Promise which resolves on success or rejects on error
+	 *
+	 * @example Ban a post's author for a week and leave a usernote:
+	 * ```ts
+	 * const post = await reddit.getPostById(postId);
+	 * await toolbox.banUser({
+	 * 	subreddit: post.subredditName,
+	 * 	username: post.authorName,
+	 * 	duration: 7,
+	 * 	context: post.id,
+	 * 	usernote: {contextPermalink: post.permalink},
+	 * });
+	 * ```
+	 */
+	async banUser (options: ToolboxBanOptions): Promise<void> {
+		const [config, appUser] = await Promise.all([
+			this.getConfig(options.subreddit),
+			this.reddit.getAppUser(),
+		]);
+		const banMacros = config.getBanMacros();
+		const tokens: ToolboxTokens = {
+			author: options.username,
+			subreddit: options.subreddit,
+			mod: appUser.username,
+			...options.tokens,
+		};
+		const note = expandTokens(options.note ?? banMacros.banNote, tokens);
+		const message = expandTokens(
+			options.message ?? banMacros.banMessage,
+			tokens,
+		);
+
+		await this.reddit.banUser({
+			subredditName: options.subreddit,
+			username: options.username,
+			duration: options.duration,
+			reason: options.reason,
+			note: note || undefined,
+			message: message || undefined,
+			context: options.context,
+		});
+
+		if (options.usernote) {
+			const permanent = !options.duration;
+			await this.addUsernote(options.subreddit, {
+				username: options.username,
+				text: options.usernote.text || note || (permanent
+					? 'Permanently banned'
+					: `Banned for ${options.duration} days`),
+				noteType: permanent ? 'permban' : 'ban',
+				moderatorUsername: appUser.username,
+				contextPermalink: options.usernote.contextPermalink,
+			}, options.usernote.reason);
 		}
-		return new SubredditConfig(page?.content);
 	}
 }
@@ -1,6 +1,12 @@
 import test from 'ava';
-import {compressBlob, decompressBlob} from '../helpers/usernotes';
+import {
+	compressBlob,
+	decompressBlob,
+	WIKI_PAGE_SIZE_LIMIT,
+} from '../helpers/usernotes';
 import type {RawUsernotes} from '../types/RawUsernotes';
+import {CorruptUsernotesError, UnsupportedSchemaVersionError} from './errors';
+import {SubredditConfig} from './SubredditConfig';
 import {Usernotes} from './Usernotes';
 
 test('constructor: accept empty input', t => {
@@ -15,6 +21,109 @@ test('constructor: accept empty input', t => {
 	);
 });
 
+/** Raw usernotes data with one valid note and a few broken ones. */
+const partiallyBrokenUsernotes = JSON.stringify({
+	ver: 6,
+	constants: {users: ['someMod'], warnings: ['ban']},
+	blob: compressBlob({
+		brokenUser: {},
+		someUser: {
+			ns: [
+				{t: 2, n: 'fine', m: 0, w: 7},
+				{t: 1, n: 'no moderator', m: 3},
+			],
+		},
+	}),
+});
+
+test('constructor: reject invalid notes by default', t => {
+	const error = t.throws(() => new Usernotes(partiallyBrokenUsernotes), {
+		instanceOf: CorruptUsernotesError,
+	});
+	t.is(error?.diagnostic.path, 'blob.brokenUser.ns');
+});
+
+test('constructor: reject unreadable pages with typed errors', t => {
+	t.throws(() => new Usernotes('{not json'), {
+		instanceOf: CorruptUsernotesError,
+	});
+	t.throws(() => new Usernotes('[]'), {instanceOf: CorruptUsernotesError});
+
+	const corruptBlob = JSON.stringify({
+		ver: 6,
+		constants: {users: [], warnings: []},
+		blob: 'bm90IHpsaWI=',
+	});
+	const corrupt = t.throws(() => new Usernotes(corruptBlob), {
+		instanceOf: CorruptUsernotesError,
+	});
+	t.is(corrupt?.diagnostic.path, 'blob');
+
+	const tooNew = t.throws(() => new Usernotes(JSON.stringify({ver: 7})), {
+		instanceOf: UnsupportedSchemaVersionError,
+	});
+	t.like(tooNew, {
+		kind: 'usernotes',
+		version: 7,
+		earliestSupported: 4,
+		latestSupported: 6,
+	});
+});
+
+test('constructor: skip invalid notes in lenient mode', t => {
+	const usernotes = new Usernotes(partiallyBrokenUsernotes, {lenient: true});
+
+	t.like(usernotes.get('someUser'), [{text: 'fine', noteType: undefined}]);
+	t.is(usernotes.get('someUser').length, 1);
+	t.deepEqual(
+		usernotes.diagnostics.map(({path, severity}) => [path, severity]),
+		[
+			['blob.brokenUser.ns', 'error'],
+			['blob.someUser.ns[0].w', 'warning'],
+			['blob.someUser.ns[1].m', 'error'],
+		],
+	);
+});
+
+test('constructor: reject broken pages even in lenient mode', t => {
+	t.throws(() =>
+		new Usernotes(JSON.stringify({ver: 6, constants: {}, blob: ''}), {
+			lenient: true,
+		})
+	);
+});
+
+test('constructor: handle broken users on old schemas', t => {
+	const constants = {users: ['someMod'], warnings: []};
+	const noUsers = t.throws(
+		() =>
+			new Usernotes(JSON.stringify({ver: 5, constants}), {lenient: true}),
+		{instanceOf: CorruptUsernotesError},
+	);
+	t.is(noUsers?.diagnostic.path, 'users');
+
+	const brokenUsers = JSON.stringify({
+		ver: 4,
+		constants,
+		users: {
+			someUser: {ns: [null, {t: 1000, n: 'fine', m: 0}]},
+			brokenUser: {},
+		},
+	});
+	const broken = t.throws(() => new Usernotes(brokenUsers), {
+		instanceOf: CorruptUsernotesError,
+	});
+	t.is(broken?.diagnostic.path, 'users.someUser.ns[0]');
+
+	const usernotes = new Usernotes(brokenUsers, {lenient: true});
+	t.like(usernotes.get('someUser'), [{text: 'fine'}]);
+	t.is(usernotes.get('someUser').length, 1);
+	t.deepEqual(usernotes.diagnostics.map(({path}) => path), [
+		'users.someUser.ns[0]',
+		'users.brokenUser.ns',
+	]);
+});
+
 test.todo('constructor: most other things');
 
 test.todo('get: most other things');
@@ -87,6 +196,528 @@ test('get: read and merge existing entries for lowercased usernames', t => {
 
 test.todo('add');
 
+/** Creates a Usernotes instance with a couple of notes on one user. */
+function usernotesWithTwoNotes () {
+	const usernotes = new Usernotes();
+	usernotes.add({
+		username: 'someUser',
+		text: 'first',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(1000),
+	});
+	usernotes.add({
+		username: 'someUser',
+		text: 'second',
+		moderatorUsername: 'otherMod',
+		timestamp: new Date(2000),
+	});
+	return usernotes;
+}
+
+test('remove: remove only the identified note', t => {
+	const usernotes = usernotesWithTwoNotes();
+
+	t.true(usernotes.remove({
+		username: 'someUser',
+		moderatorUsername: 'someMod',
+		// sub-second differences don't matter since they aren't stored
+		timestamp: new Date(1400),
+	}));
+	t.like(usernotes.get('someUser'), [{text: 'second'}]);
+	t.is(usernotes.get('someUser').length, 1);
+});
+
+test('remove: match moderator names regardless of case', t => {
+	const usernotes = usernotesWithTwoNotes();
+
+	t.true(usernotes.remove({
+		username: 'someUser',
+		moderatorUsername: 'somemod',
+		timestamp: new Date(1000),
+	}));
+	t.like(usernotes.get('someUser'), [{text: 'second'}]);
+});
+
+test('remove, update, and merge: match usernames regardless of case', t => {
+	const usernotes = usernotesWithTwoNotes();
+	const identifier = (moderatorUsername: string, time: number) => ({
+		username: 'someuser',
+		moderatorUsername,
+		timestamp: new Date(time),
+	});
+
+	t.like(usernotes.update(identifier('otherMod', 2000), {text: 'edited'}), {
+		username: 'someUser',
+		text: 'edited',
+	});
+	t.true(usernotes.remove(identifier('someMod', 1000)));
+
+	const result = usernotes.merge([
+		{...identifier('otherMod', 2000), text: 'duplicate'},
+		{...identifier('newMod', 3000), text: 'new'},
+	]);
+	t.is(result.duplicates.length, 1);
+	t.like(result.added, [{username: 'someUser', text: 'new'}]);
+	t.deepEqual(usernotes.usernames(), ['someUser']);
+	t.like(usernotes.get('someUser'), [{text: 'new'}, {text: 'edited'}]);
+});
+
+test('remove: return false for unknown notes', t => {
+	const usernotes = usernotesWithTwoNotes();
+
+	t.false(usernotes.remove({
+		username: 'someUser',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(2000),
+	}));
+	t.is(usernotes.get('someUser').length, 2);
+});
+
+test('update: change properties of the identified note', t => {
+	const usernotes = usernotesWithTwoNotes();
+	const [note] = usernotes.get('someUser');
+
+	const updated = usernotes.update(note!, {text: 'edited', noteType: 'ban'});
+	t.like(updated, {
+		text: 'edited',
+		noteType: 'ban',
+		moderatorUsername: 'otherMod',
+	});
+	t.like(usernotes.get('someUser'), [{text: 'edited'}, {text: 'first'}]);
+	t.is(
+		usernotes.update({...note!, moderatorUsername: 'nobody'}, {text: 'x'}),
+		undefined,
+	);
+});
+
+test('removeAllForUser: remove notes under both spellings of the username', t => {
+	const usernotes = usernotesWithTwoNotes();
+	usernotes.add({
+		username: 'someuser',
+		text: 'lowercased',
+		moderatorUsername: 'someMod',
+		timestamp: new Date(3000),
+	});
+
+	t.is(usernotes.removeAllForUser('someUser'), 3);
+	t.deepEqual(usernotes.get('someUser'), []);
+	t.deepEqual(usernotes.get('someuser'), []);
+});
+
+test('removeAllForUser: find notes regardless of case', t => {
+	const usernotes = usernotesWithTwoNotes();
+
+	t.is(usernotes.removeAllForUser('SOMEUSER'), 2);
+	t.deepEqual(usernotes.usernames(), []);
+});
+
+/** Creates a Usernotes instance with a variety of notes to search through. */
+function usernotesToQuery () {
+	const usernotes = new Usernotes();
+	const notes = [
+		['alice', 'modA', 1, 'spamwatch', 'posted the same link twice', 'l,abc'],
+		['alice', 'modB', 2, 'permban', 'alt account of bob', undefined],
+		['bob', 'modA', 3, 'permban', 'ban evasion', 'l,def,ghi'],
+		['carol', 'modB', 4, undefined, 'Helpful in the megathread', undefined],
+		['carol', 'modA', 5, 'gooduser', 'ALT ACCOUNT? probably not', 'm,jkl'],
+	] as const;
+	for (const [username, moderatorUsername, day, noteType, text, link] of notes) {
+		usernotes.add({
+			username,
+			moderatorUsername,
+			timestamp: new Date(Date.UTC(2023, 0, day)),
+			noteType,
+			text,
+			contextPermalink: link,
+		});
+	}
+	return usernotes;
+}
+
+test('usernames', t => {
+	t.deepEqual(usernotesToQuery().usernames(), ['alice', 'bob', 'carol']);
+});
+
+test('notes', t => {
+	t.is([...usernotesToQuery().notes()].length, 5);
+});
+
+test('query: no criteria returns everything newest-first', t => {
+	const {notes, total} = usernotesToQuery().query();
+	t.is(total, 5);
+	t.deepEqual(notes.map(note => note.timestamp.getUTCDate()), [5, 4, 3, 2, 1]);
+});
+
+test('query: filter criteria', t => {
+	const usernotes = usernotesToQuery();
+	const days = (query: Parameters<Usernotes['query']>[0]) =>
+		usernotes.query(query).notes.map(note => note.timestamp.getUTCDate());
+
+	t.deepEqual(days({moderatorUsername: 'MODA'}), [5, 3, 1]);
+	t.deepEqual(days({username: ['bob', 'Carol']}), [5, 4, 3]);
+	t.deepEqual(days({noteType: 'permban'}), [3, 2]);
+	t.deepEqual(days({noteType: [null, 'gooduser']}), [5, 4]);
+	t.deepEqual(
+		days({
+			from: new Date(Date.UTC(2023, 0, 2)),
+			to: new Date(Date.UTC(2023, 0, 4)),
+		}),
+		[3, 2],
+	);
+	t.deepEqual(days({text: 'alt account'}), [5, 2]);
+	t.deepEqual(days({text: /^ban|same/g}), [3, 1]);
+	t.deepEqual(days({hasContextPermalink: false}), [4, 2]);
+	t.deepEqual(days({moderatorUsername: 'modA', hasContextPermalink: true}), [
+		5,
+		3,
+		1,
+	]);
+});
+
+test('query: sorting and pagination', t => {
+	const usernotes = usernotesToQuery();
+
+	const {notes, total} = usernotes.query({
+		sortBy: 'moderatorUsername',
+		order: 'ascending',
+		offset: 1,
+		limit: 3,
+	});
+	t.is(total, 5);
+	t.like(notes, [
+		{moderatorUsername: 'modA', username: 'bob'},
+		{moderatorUsername: 'modA', username: 'carol'},
+		{moderatorUsername: 'modB', username: 'alice'},
+	]);
+});
+
+test('prune: apply each rule', async t => {
+	const now = new Date(Date.UTC(2023, 0, 31));
+
+	const byAge = usernotesToQuery();
+	t.deepEqual(await byAge.prune({maxAgeDays: 27, now}), {
+		removedNotes: 3,
+		removedUsers: ['alice', 'bob'],
+	});
+	t.deepEqual(byAge.usernames(), ['carol']);
+
+	const byCount = usernotesToQuery();
+	t.deepEqual(await byCount.prune({maxNotesPerUser: 1}), {
+		removedNotes: 2,
+		removedUsers: [],
+	});
+	t.like(byCount.get('alice'), [{text: 'alt account of bob'}]);
+	t.like(byCount.get('carol'), [{text: 'ALT ACCOUNT? probably not'}]);
+
+	const byType = usernotesToQuery();
+	t.deepEqual(await byType.prune({noteTypes: ['permban']}), {
+		removedNotes: 2,
+		removedUsers: ['bob'],
+	});
+
+	const byUser = usernotesToQuery();
+	t.deepEqual(
+		await byUser.prune({
+			shouldRemoveUser: async username => username === 'carol',
+		}),
+		{removedNotes: 2, removedUsers: ['carol']},
+	);
+	t.deepEqual(byUser.usernames(), ['alice', 'bob']);
+});
+
+test('normalizeUsernames: merge users and moderators differing by case', t => {
+	const rawUsernotes: RawUsernotes = {
+		ver: 6,
+		constants: {
+			users: ['SomeMod', 'somemod', 'SOMEMOD', 'otherMod'],
+			warnings: [],
+		},
+		blob: compressBlob({
+			someuser: {ns: [{m: 1, n: 'lowercased', t: 1}]},
+			someUser: {ns: [{m: 0, n: 'canonical', t: 3}]},
+			SomeUser: {
+				ns: [{m: 2, n: 'other spelling 1', t: 2}, {
+					m: 0,
+					n: 'other spelling 2',
+					t: 0,
+				}],
+			},
+			otherUser: {ns: [{m: 3, n: 'untouched', t: 4}]},
+		}),
+	};
+	const usernotes = new Usernotes(JSON.stringify(rawUsernotes));
+
+	t.deepEqual(usernotes.normalizeUsernames(), {
+		users: [{
+			canonical: 'SomeUser',
+			merged: ['someUser', 'someuser'],
+			notesMoved: 2,
+		}],
+		moderators: [{
+			canonical: 'SomeMod',
+			merged: ['SOMEMOD', 'somemod'],
+			notesMoved: 2,
+		}],
+	});
+	t.deepEqual(usernotes.usernames(), ['SomeUser', 'otherUser']);
+	t.deepEqual(
+		usernotes.get('SomeUser').map(note => [note.text, note.moderatorUsername]),
+		[
+			['canonical', 'SomeMod'],
+			['other spelling 1', 'SomeMod'],
+			['lowercased', 'SomeMod'],
+			['other spelling 2', 'SomeMod'],
+		],
+	);
+	t.deepEqual(usernotes.toJSON().constants.users, ['SomeMod', 'otherMod']);
+
+	t.deepEqual(usernotes.normalizeUsernames(), {users: [], moderators: []});
+});
+
+test('normalizeUsernames: keep unknown fields of merged users', t => {
+	const usernotes = new Usernotes(JSON.stringify({
+		ver: 6,
+		constants: {users: ['someMod'], warnings: []},
+		blob: compressBlob({
+			SomeUser: {ns: [{t: 2, n: 'canonical', m: 0}], pinned: 1},
+			someuser: {ns: [{t: 1, n: 'lowercased', m: 0}], color: 'red'},
+		}),
+	}));
+	usernotes.normalizeUsernames();
+	t.deepEqual(decompressBlob(usernotes.toJSON().blob), {
+		SomeUser: {
+			ns: [{t: 2, n: 'canonical', m: 0}, {t: 1, n: 'lowercased', m: 0}],
+			pinned: 1,
+			color: 'red',
+		},
+	});
+});
+
+test('estimateSize', t => {
+	const usernotes = usernotesToQuery();
+	const {size, limit, usage} = usernotes.estimateSize();
+	t.is(size, usernotes.toString().length);
+	t.is(limit, WIKI_PAGE_SIZE_LIMIT);
+	t.is(usage, size / limit);
+});
+
+/** A usernotes page with fields this library doesn't know about. */
+const usernotesWithExtraFields = JSON.stringify({
+	ver: 6,
+	constants: {
+		users: ['someMod', 'otherMod'],
+		warnings: ['ban', 'spamwatch'],
+		colors: {ban: 'red'},
+	},
+	blob: compressBlob({
+		someUser: {
+			ns: [
+				{t: 2, n: 'second', m: 1, w: 1, l: 'l,abc', source: 'sync-bot'},
+				{t: 1, n: 'first', m: 0, w: 0, reviewed: true},
+			],
+			pinned: 1,
+		},
+		otherUser: {ns: [{t: 3, n: 'other', m: 0}]},
+	}),
+	generatedBy: 'some other tool',
+	lastPruned: 1672531200,
+});
+
+test('toJSON: keep unknown fields unchanged', t => {
+	t.is(
+		new Usernotes(usernotesWithExtraFields).toString(),
+		usernotesWithExtraFields,
+	);
+});
+
+test('toJSON: keep unknown fields when notes change', t => {
+	const usernotes = new Usernotes(usernotesWithExtraFields);
+	t.deepEqual(usernotes.get('someUser')[0]!.extraFields, {source: 'sync-bot'});
+
+	usernotes.removeAllForUser('otherUser');
+	usernotes.update(usernotes.get('someUser')[1]!, {text: 'edited'});
+	usernotes.add({
+		username: 'someUser',
+		text: 'new',
+		timestamp: new Date(3000),
+		moderatorUsername: 'newMod',
+	});
+
+	const raw = usernotes.toJSON() as RawUsernotes & Record<string, unknown>;
+	t.deepEqual(raw.constants, {
+		users: ['someMod', 'otherMod', 'newMod'],
+		warnings: ['ban', 'spamwatch'],
+		colors: {ban: 'red'},
+	});
+	t.is(raw.generatedBy, 'some other tool');
+	t.deepEqual(decompressBlob(raw.blob), {
+		someUser: {
+			ns: [
+				{t: 3, n: 'new', m: 2},
+				{t: 2, n: 'second', m: 1, w: 1, l: 'l,abc', source: 'sync-bot'},
+				{t: 1, n: 'edited', m: 0, w: 0, reviewed: true},
+			],
+			pinned: 1,
+		},
+	});
+});
+
+test('toJSON: keep key order and constants unchanged', t => {
+	const page = JSON.stringify({
+		blob: compressBlob({
+			someUser: {
+				pinned: 1,
+				ns: [
+					{n: 'duplicate mod', m: 2, t: 2, w: 2},
+					{l: 'l,abc', w: 1, t: 1, m: 0, n: 'first'},
+				],
+			},
+		}),
+		generatedBy: 'some other tool',
+		constants: {
+			colors: {ban: 'red'},
+			warnings: [null, 'ban', 'ban', 'unused'],
+			users: ['someMod', 'unusedMod', 'someMod'],
+		},
+		ver: 6,
+	});
+	t.is(new Usernotes(page).toString(), page);
+
+	const usernotes = new Usernotes(page);
+	usernotes.update(usernotes.get('someUser')[0]!, {text: 'edited'});
+	usernotes.add({
+		username: 'someUser',
+		text: 'new',
+		timestamp: new Date(3000),
+		moderatorUsername: 'newMod',
+		noteType: 'ban',
+	});
+	const raw = usernotes.toJSON();
+	t.deepEqual(Object.keys(raw), ['blob', 'generatedBy', 'constants', 'ver']);
+	t.deepEqual(raw.constants, {
+		colors: {ban: 'red'},
+		warnings: [null, 'ban', 'ban', 'unused'],
+		users: ['someMod', 'unusedMod', 'someMod', 'newMod'],
+	});
+	t.is(
+		JSON.stringify(decompressBlob(raw.blob)),
+		JSON.stringify({
+			someUser: {
+				pinned: 1,
+				ns: [
+					{t: 3, n: 'new', m: 3, w: 1},
+					{n: 'edited', m: 2, t: 2, w: 2},
+					{l: 'l,abc', w: 1, t: 1, m: 0, n: 'first'},
+				],
+			},
+		}),
+	);
+});
+
+test('toJSON: keep links unchanged', t => {
+	const page = JSON.stringify({
+		ver: 6,
+		constants: {users: ['someMod'], warnings: []},
+		blob: compressBlob({
+			someUser: {
+				ns: [
+					{
+						t: 3,
+						n: 'post',
+						m: 0,
+						l: 'https://www.reddit.com/r/x/comments/abc/slug/',
+					},
+					{
+						t: 2,
+						n: 'modmail',
+						m: 0,
+						l: 'https://mod.reddit.com/mail/inbox/abc12',
+					},
+					{t: 1, n: 'squashed', m: 0, l: 'l,abc,def'},
+				],
+			},
+		}),
+	});
+	t.is(new Usernotes(page).toString(), page);
+
+	// links that change are shortened
+	const usernotes = new Usernotes(page);
+	usernotes.update(usernotes.get('someUser')[0]!, {
+		contextPermalink: 'https://www.reddit.com/r/x/comments/def/slug/',
+	});
+	t.like(decompressBlob(usernotes.toJSON().blob), {
+		someUser: {ns: [{l: 'l,def'}]},
+	});
+});
+
+test('clone: copy everything, independently of the original', t => {
+	const usernotes = new Usernotes(usernotesWithExtraFields);
+	const copy = usernotes.clone();
+	t.is(copy.toString(), usernotesWithExtraFields);
+
+	copy.update(copy.get('someUser')[0]!, {text: 'changed'});
+	copy.get('someUser')[0]!.timestamp.setTime(0);
+	t.is(usernotes.toString(), usernotesWithExtraFields);
+});
+
+test('toCSV and toJSONL: export every note with type labels', t => {
+	const usernotes = usernotesToQuery();
+	const config = new SubredditConfig();
+
+	const lines = usernotes.toJSONL(config).trim().split('\n')
+		.map(line => JSON.parse(line));
+	t.is(lines.length, 5);
+	t.deepEqual(lines[0], {
+		username: 'alice',
+		timestamp: '2023-01-02T00:00:00.000Z',
+		moderator: 'modB',
+		noteType: 'permban',
+		noteTypeLabel: 'Permanent Ban',
+		text: 'alt account of bob',
+	});
+
+	const csv = usernotes.toCSV(config).split('\n');
+	t.is(csv.length, 7);
+	t.is(
+		csv[5],
+		'carol,2023-01-04T00:00:00.000Z,modB,,,Helpful in the megathread,',
+	);
+});
+
+test('importCSV and importJSONL: merge or replace existing notes', t => {
+	const original = usernotesToQuery();
+	const total = original.query().total;
+
+	const merged = usernotesWithTwoNotes();
+	const mergeResult = merged.importCSV(original.toCSV());
+	t.is(mergeResult.added.length, total);
+	t.deepEqual(mergeResult.duplicates, []);
+	t.is(merged.query().total, total + 2);
+
+	const again = merged.importJSONL(original.toJSONL());
+	t.is(again.added.length, 0);
+	t.is(again.duplicates.length, total);
+
+	const replaced = usernotesWithTwoNotes();
+	replaced.importJSONL(original.toJSONL(), {mode: 'replace'});
+	t.is(replaced.toString(), original.toString());
+});
+
+test('importCSV: import nothing if a row is invalid', t => {
+	const usernotes = usernotesWithTwoNotes();
+	t.throws(
+		() =>
+			usernotes.importCSV(
+				'username,timestamp,moderator,text\n'
+					+ 'a,2023-01-01,someMod,fine\n'
+					+ 'b,,someMod,no timestamp\n',
+				{mode: 'replace'},
+			),
+		{message: /row 2: timestamp is missing/},
+	);
+	t.is(usernotes.query().total, 2);
+});
+
 test.todo('toJSON');
 
 test.todo('toString');
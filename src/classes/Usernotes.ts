@@ -1,13 +1,54 @@
+import {
+	exportRowToUsernote,
+	formatUsernotesCSV,
+	formatUsernotesJSONL,
+	parseUsernotesCSV,
+	parseUsernotesJSONL,
+	usernoteToExportRow,
+} from '../helpers/export';
 import {
 	compressBlob,
 	decompressBlob,
 	expandPermalink,
+	getUsernoteKey,
 	LATEST_KNOWN_USERNOTES_SCHEMA,
 	migrateUsernotesToLatestSchema,
+	removeInvalidLegacyUsernotesUsers,
 	squashPermalink,
+	validateRawUsernote,
+	validateLegacyUsernotesUsers,
+	validateRawUsernotesStructure,
+	WIKI_PAGE_SIZE_LIMIT,
 } from '../helpers/usernotes';
-import {RawUsernotes, RawUsernotesConstants} from '../types/RawUsernotes';
-import {Usernote} from '../types/Usernote';
+import {
+	UsernoteExportRow,
+	UsernotesImportOptions,
+	UsernotesImportResult,
+} from '../types/Export';
+import {
+	RawUsernotes,
+	RawUsernotesConstants,
+	RawUsernotesNote,
+	UsernotesDiagnostic,
+} from '../types/RawUsernotes';
+import {
+	Usernote,
+	UsernameCollision,
+	UsernoteIdentifier,
+	UsernoteQuery,
+	UsernoteQueryResult,
+	UsernotesNormalizationReport,
+	UsernotesParseOptions,
+	UsernotesPrunePolicy,
+	UsernotesPruneResult,
+	UsernotesSizeEstimate,
+	UsernoteUpdate,
+} from '../types/Usernote';
+import {CorruptUsernotesError} from './errors';
+import {SubredditConfig} from './SubredditConfig';
+
+/** The fields of a raw note that this library knows what to do with. */
+const RAW_NOTE_KEYS = ['t', 'n', 'm', 'w', 'l'];
 
 /**
  * A class that interfaces with the raw contents of a subreddit's `usernotes`
@@ -19,36 +60,182 @@ export class Usernotes {
 	/** A mapping of usernames to notes on the given user. */
 	private users = new Map<string, Usernote[]>();
 
-	constructor (jsonString?: string) {
+	/**
+	 * Problems found while reading the notes. Warnings describe parts of notes
+	 * that were ignored. In lenient mode, errors describe notes that were
+	 * skipped entirely; **those notes will be lost if these notes are saved
+	 * back to the wiki.**
+	 */
+	readonly diagnostics: UsernotesDiagnostic[] = [];
+
+	/**
+	 * The constants of the page the notes were read from. Moderators and note
+	 * types are written back exactly as they were, with any new ones added to
+	 * the end, so the indexes of existing notes don't change.
+	 */
+	private originalConstants: RawUsernotesConstants = {users: [], warnings: []};
+
+	/**
+	 * Fields this library doesn't know about, found at the top level of the
+	 * page, in its constants, and on individual users in the blob. They're
+	 * written back unchanged.
+	 */
+	private extraFields: {
+		page?: Record<string, unknown>;
+		constants?: Record<string, unknown>;
+		users: Map<string, Record<string, unknown>>;
+	} = {users: new Map()};
+
+	/**
+	 * The order of the keys of the page the notes were read from, its
+	 * constants, and each user in the blob, so they can be written back in
+	 * the same order.
+	 */
+	private keyOrder: {
+		page?: string[];
+		constants?: string[];
+		users: Map<string, string[]>;
+	} = {users: new Map()};
+
+	/**
+	 * The raw note each note was read from. Notes are written back with the
+	 * same key order and, where they still apply, the same constant indexes.
+	 */
+	private rawNotes = new WeakMap<Usernote, RawUsernotesNote>();
+
+	/**
+	 * Reads usernotes from the contents of a `usernotes` wiki page.
+	 * @param jsonString The page contents, or nothing to start with no notes
+	 * @param options Options for handling invalid data. By default, any
+	 * invalid note causes an error to be thrown; in lenient mode, invalid
+	 * notes are skipped and listed in {@linkcode diagnostics} instead. Problems
+	 * with the page as a whole always cause an error, since saving the page
+	 * back after skipping everything would delete all the notes.
+	 */
+	constructor (jsonString?: string, options: UsernotesParseOptions = {}) {
 		// if we have no data to start with, we start fresh
 		if (!jsonString) {
 			return;
 		}
 
-		let data = migrateUsernotesToLatestSchema(JSON.parse(jsonString));
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(jsonString);
+		} catch (error) {
+			throw new CorruptUsernotesError({
+				path: '',
+				issue: 'page is not valid JSON',
+				severity: 'error',
+			}, error);
+		}
+		const [notAnObject] = validateRawUsernotesStructure(parsed);
+		if (notAnObject?.path === '') {
+			throw new CorruptUsernotesError(notAnObject);
+		}
+		const page = parsed as Record<string, unknown>;
+
+		// Older schemas store users as a plain object, which has to be in good
+		// enough shape to migrate
+		if (page.ver === 4 || page.ver === 5) {
+			const problems = validateLegacyUsernotesUsers(page.users);
+			const [problem] = problems;
+			// without a users object, there's nothing to read at all
+			if (problem && (!options.lenient || problem.path === 'users')) {
+				throw new CorruptUsernotesError(problem);
+			}
+			if (problems.length) {
+				this.diagnostics.push(...problems);
+				page.users = removeInvalidLegacyUsernotesUsers(
+					page.users as Record<string, unknown>,
+				);
+			}
+		}
+		const data = migrateUsernotesToLatestSchema(page);
+		const [structureProblem] = validateRawUsernotesStructure(data);
+		if (structureProblem) {
+			throw new CorruptUsernotesError(structureProblem);
+		}
 		const rawUsers = decompressBlob(data.blob);
+		if (typeof rawUsers !== 'object' || !rawUsers) {
+			throw new CorruptUsernotesError({
+				path: 'blob',
+				issue: 'blob is not an object',
+				severity: 'error',
+			});
+		}
+		this.originalConstants = data.constants;
+		this.extraFields.page = pickExtraFields(data, [
+			'ver',
+			'constants',
+			'blob',
+		]);
+		this.extraFields.constants = pickExtraFields(data.constants, [
+			'users',
+			'warnings',
+		]);
+		this.keyOrder.page = Object.keys(data);
+		this.keyOrder.constants = Object.keys(data.constants);
+
+		for (const [username, user] of Object.entries(rawUsers)) {
+			const path = `blob.${username}`;
+			if (typeof user !== 'object' || !user || !Array.isArray(user.ns)) {
+				const problem: UsernotesDiagnostic = {
+					path: `${path}.ns`,
+					issue: 'missing or not an array',
+					severity: 'error',
+				};
+				if (!options.lenient) {
+					throw new CorruptUsernotesError(problem);
+				}
+				this.diagnostics.push(problem);
+				continue;
+			}
+			const userExtraFields = pickExtraFields(user, ['ns']);
+			if (userExtraFields) {
+				this.extraFields.users.set(username, userExtraFields);
+			}
+			this.keyOrder.users.set(username, Object.keys(user));
+
+			user.ns.forEach((rawNote, i) => {
+				const problems = validateRawUsernote(
+					rawNote,
+					`${path}.ns[${i}]`,
+					data.constants,
+				);
+				const error = problems.find(problem => problem.severity === 'error');
+				if (error && !options.lenient) {
+					throw new CorruptUsernotesError(error);
+				}
+				this.diagnostics.push(...problems);
+				if (error) {
+					return;
+				}
 
-		for (const [username, {ns}] of Object.entries(rawUsers)) {
-			for (const rawNote of ns) {
 				let userNotes = this.users.get(username);
 				if (userNotes == null) {
 					userNotes = [];
 					this.users.set(username, userNotes);
 				}
 
-				userNotes.push({
+				const note: Usernote = {
 					username,
 					timestamp: new Date(rawNote.t * 1000),
-					text: rawNote.n!,
-					moderatorUsername: data.constants.users[rawNote.m!]!,
-					contextPermalink: rawNote.l == null
+					text: rawNote.n,
+					moderatorUsername: data.constants.users[rawNote.m]!,
+					contextPermalink: typeof rawNote.l !== 'string'
 						? undefined
 						: expandPermalink(rawNote.l),
 					noteType: rawNote.w == null
 						? undefined
 						: data.constants.warnings[rawNote.w] ?? undefined,
-				});
-			}
+				};
+				const extraFields = pickExtraFields(rawNote, RAW_NOTE_KEYS);
+				if (extraFields) {
+					note.extraFields = extraFields;
+				}
+				this.rawNotes.set(note, rawNote);
+				userNotes.push(note);
+			});
 		}
 	}
 
@@ -99,12 +286,12 @@ export class Usernotes {
 		// canonical list of notes. Then, completely remove the entry under the
 		// lowercased username so it will be removed if we save to wiki later.
 		const otherNotes = this.users.get(usernameLowercase) || [];
-		const updatedNotes = otherNotes.map(note => ({
-			...note,
-			username,
-		}));
+		const updatedNotes = otherNotes.map(note =>
+			this.copyNote(note, {username})
+		);
 		notes.push(...updatedNotes);
 		this.users.delete(usernameLowercase);
+		this.mergeUserExtraFields(usernameLowercase, username);
 
 		// the two note lists might overlap in date range; sort in place
 		notes.sort((a, b) => +b.timestamp - +a.timestamp);
@@ -112,16 +299,486 @@ export class Usernotes {
 		return notes;
 	}
 
+	/**
+	 * Returns the names of all users who have notes. Names are returned as
+	 * they're stored, so a user may appear under more than one spelling if
+	 * third-party apps have saved notes under a lowercased name.
+	 */
+	usernames (): string[] {
+		return [...this.users.entries()]
+			.filter(([, notes]) => notes.length)
+			.map(([username]) => username);
+	}
+
+	/** Iterates over every usernote on every user. */
+	*notes (): IterableIterator<Usernote> {
+		for (const notes of this.users.values()) {
+			yield* notes;
+		}
+	}
+
+	/**
+	 * Searches through all usernotes.
+	 * @param query Criteria notes must match, and how to sort and paginate
+	 * the results
+	 * @returns The requested page of matching notes and the total number of
+	 * matches
+	 *
+	 * @example Get the 10 most recent notes left by a moderator in the last
+	 * 30 days:
+	 * ```ts
+	 * const {notes} = usernotes.query({
+	 * 	moderatorUsername: 'eritbh',
+	 * 	from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+	 * 	limit: 10,
+	 * });
+	 * ```
+	 */
+	query (query: UsernoteQuery = {}): UsernoteQueryResult {
+		const matches = [...this.notes()].filter(note =>
+			noteMatchesQuery(note, query)
+		);
+
+		const sortBy = query.sortBy ?? 'timestamp';
+		const direction = query.order === 'ascending' ? 1 : -1;
+		matches.sort((a, b) => {
+			if (sortBy !== 'timestamp') {
+				const result = a[sortBy].localeCompare(b[sortBy]);
+				if (result) {
+					return result * direction;
+				}
+			}
+			return (+a.timestamp - +b.timestamp) * direction;
+		});
+
+		const offset = query.offset ?? 0;
+		return {
+			notes: matches.slice(
+				offset,
+				query.limit == null ? undefined : offset + query.limit,
+			),
+			total: matches.length,
+		};
+	}
+
+	/**
+	 * Removes a single usernote.
+	 * @param note Identifies the note to remove
+	 * @returns `true` if the note was found and removed, `false` otherwise
+	 */
+	remove (note: UsernoteIdentifier): boolean {
+		const found = this.findNote(note);
+		if (!found) {
+			return false;
+		}
+		found.notes.splice(found.index, 1);
+		return true;
+	}
+
+	/**
+	 * Changes the details of a single usernote.
+	 * @param note Identifies the note to update
+	 * @param changes The properties of the note to change
+	 * @returns The updated note, or `undefined` if the note wasn't found
+	 */
+	update (
+		note: UsernoteIdentifier,
+		changes: UsernoteUpdate,
+	): Usernote | undefined {
+		const found = this.findNote(note);
+		if (!found) {
+			return undefined;
+		}
+		const {notes, index} = found;
+		const updatedNote = this.copyNote(notes[index]!, changes);
+		notes[index] = updatedNote;
+
+		// the timestamp may have changed; keep the list sorted newest-first
+		if (changes.timestamp) {
+			notes.sort((a, b) => +b.timestamp - +a.timestamp);
+		}
+		return updatedNote;
+	}
+
+	/**
+	 * Removes all usernotes on a user, including any stored under spellings of
+	 * their username that differ only by case.
+	 * @param username The user to remove all notes from
+	 * @returns The number of notes that were removed
+	 */
+	removeAllForUser (username: string): number {
+		const usernameLowercase = username.toLowerCase();
+		let count = 0;
+		for (const [spelling, notes] of this.users) {
+			if (spelling.toLowerCase() === usernameLowercase) {
+				count += notes.length;
+				this.users.delete(spelling);
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Removes old or unwanted notes to free up space on the wiki.
+	 * @param policy Rules describing which notes to remove
+	 * @returns Promise which resolves to details about what was removed
+	 */
+	async prune (policy: UsernotesPrunePolicy): Promise<UsernotesPruneResult> {
+		const now = policy.now ?? new Date();
+		const cutoff = policy.maxAgeDays == null
+			? undefined
+			: new Date(+now - policy.maxAgeDays * 24 * 60 * 60 * 1000);
+		const removedTypes = policy.noteTypes ?? [];
+
+		const result: UsernotesPruneResult = {
+			removedNotes: 0,
+			removedUsers: [],
+		};
+		for (const [username, notes] of [...this.users.entries()]) {
+			if (!notes.length) {
+				continue;
+			}
+
+			let keptNotes: Usernote[] = [];
+			if (!await policy.shouldRemoveUser?.(username)) {
+				keptNotes = notes.filter(note =>
+					!(cutoff && note.timestamp < cutoff)
+					&& !(note.noteType && removedTypes.includes(note.noteType))
+				);
+			}
+			if (policy.maxNotesPerUser != null) {
+				keptNotes = keptNotes
+					.sort((a, b) => +b.timestamp - +a.timestamp)
+					.slice(0, policy.maxNotesPerUser);
+			}
+
+			result.removedNotes += notes.length - keptNotes.length;
+			if (keptNotes.length) {
+				this.users.set(username, keptNotes);
+			} else {
+				this.users.delete(username);
+				result.removedUsers.push(username);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Merges all usernames and moderator names which differ only by case into
+	 * a single spelling. Where {@linkcode get} only fixes up one user at a time
+	 * as they're looked up, this fixes the whole page at once.
+	 *
+	 * The spelling kept for each name is chosen deterministically: spellings
+	 * with capital letters are preferred (since lowercased names are usually
+	 * the result of third-party apps mangling them), then the spelling used by
+	 * the most notes, then the spelling that sorts first.
+	 * @returns Details about which names were merged
+	 */
+	normalizeUsernames (): UsernotesNormalizationReport {
+		const report: UsernotesNormalizationReport = {
+			users: [],
+			moderators: [],
+		};
+
+		// Merge users' note lists together under the canonical spelling
+		const userSpellings = new Map<string, Map<string, number>>();
+		for (const [username, notes] of this.users) {
+			if (notes.length) {
+				addSpelling(userSpellings, username, notes.length);
+			}
+		}
+		for (const spellings of userSpellings.values()) {
+			const collision = resolveCollision(spellings);
+			if (!collision) {
+				continue;
+			}
+			const notes = this.users.get(collision.canonical)!;
+			for (const spelling of collision.merged) {
+				notes.push(...this.users.get(spelling)!.map(note =>
+					this.copyNote(note, {username: collision.canonical})
+				));
+				this.users.delete(spelling);
+				this.mergeUserExtraFields(spelling, collision.canonical);
+			}
+			notes.sort((a, b) => +b.timestamp - +a.timestamp);
+			report.users.push(collision);
+		}
+
+		// Rewrite moderator names on individual notes
+		const moderatorSpellings = new Map<string, Map<string, number>>();
+		for (const note of this.notes()) {
+			addSpelling(moderatorSpellings, note.moderatorUsername, 1);
+		}
+		const renamedModerators = new Map<string, string>();
+		for (const spellings of moderatorSpellings.values()) {
+			const collision = resolveCollision(spellings);
+			if (!collision) {
+				continue;
+			}
+			for (const spelling of collision.merged) {
+				renamedModerators.set(spelling, collision.canonical);
+			}
+			report.moderators.push(collision);
+		}
+		if (renamedModerators.size) {
+			for (const notes of this.users.values()) {
+				notes.forEach((note, i) => {
+					const canonical = renamedModerators.get(note.moderatorUsername);
+					if (canonical) {
+						notes[i] = this.copyNote(note, {
+							moderatorUsername: canonical,
+						});
+					}
+				});
+			}
+			// the merged spellings aren't used by any notes anymore
+			this.originalConstants = {
+				...this.originalConstants,
+				users: this.originalConstants.users.filter(name =>
+					name == null || !renamedModerators.has(name)
+				),
+			};
+		}
+
+		return report;
+	}
+
+	/**
+	 * Reports how much space the usernotes would take up if saved to the wiki
+	 * right now, relative to the size limit for wiki pages.
+	 */
+	estimateSize (): UsernotesSizeEstimate {
+		const size = Buffer.byteLength(this.toString());
+		return {
+			size,
+			limit: WIKI_PAGE_SIZE_LIMIT,
+			usage: size / WIKI_PAGE_SIZE_LIMIT,
+		};
+	}
+
+	/**
+	 * Exports every note as CSV, one note per row, with a header row naming the
+	 * columns. See {@linkcode UsernoteExportRow} for the columns.
+	 * @param config The subreddit's config, used to include the label of each
+	 * note's type
+	 * @returns The CSV text
+	 */
+	toCSV (config?: SubredditConfig): string {
+		return formatUsernotesCSV(
+			[...this.notes()].map(note => usernoteToExportRow(note, config)),
+		);
+	}
+
+	/**
+	 * Exports every note as JSON Lines, one note per line. See
+	 * {@linkcode UsernoteExportRow} for the fields of each line.
+	 * @param config The subreddit's config, used to include the label of each
+	 * note's type
+	 * @returns The JSONL text
+	 */
+	toJSONL (config?: SubredditConfig): string {
+		return formatUsernotesJSONL(
+			[...this.notes()].map(note => usernoteToExportRow(note, config)),
+		);
+	}
+
+	/**
+	 * Imports notes from CSV in the format produced by {@linkcode toCSV}.
+	 * Nothing is imported if any row is invalid.
+	 * @param csv The CSV text
+	 * @param options Whether to merge with or replace the existing notes
+	 * @param config The subreddit's config, used to find note type keys for
+	 * rows that only have a label
+	 * @returns Details about which notes were added
+	 * @throws {UsernotesImportError} if a row is invalid
+	 */
+	importCSV (
+		csv: string,
+		options: UsernotesImportOptions = {},
+		config?: SubredditConfig,
+	): UsernotesImportResult {
+		return this.importRows(parseUsernotesCSV(csv), options, config);
+	}
+
+	/**
+	 * Imports notes from JSON Lines in the format produced by
+	 * {@linkcode toJSONL}. Nothing is imported if any line is invalid.
+	 * @param jsonl The JSONL text
+	 * @param options Whether to merge with or replace the existing notes
+	 * @param config The subreddit's config, used to find note type keys for
+	 * lines that only have a label
+	 * @returns Details about which notes were added
+	 * @throws {UsernotesImportError} if a line is invalid
+	 */
+	importJSONL (
+		jsonl: string,
+		options: UsernotesImportOptions = {},
+		config?: SubredditConfig,
+	): UsernotesImportResult {
+		return this.importRows(parseUsernotesJSONL(jsonl), options, config);
+	}
+
+	/** Adds notes from parsed export rows. */
+	private importRows (
+		rows: Partial<Record<keyof UsernoteExportRow, unknown>>[],
+		options: UsernotesImportOptions,
+		config?: SubredditConfig,
+	): UsernotesImportResult {
+		// convert everything first so nothing changes if a row is invalid
+		const imported = rows.map((row, i) =>
+			exportRowToUsernote(row, i + 1, config)
+		);
+		return this.merge(imported, options);
+	}
+
+	/**
+	 * Adds notes from elsewhere, e.g. another subreddit, skipping any that
+	 * duplicate a note that's already here. A note is a duplicate if there's
+	 * already a note on the same user by the same moderator at the same time.
+	 * Notes on a user who already has notes are stored under the spelling of
+	 * the username that's already used.
+	 * @param notesToAdd The notes to add
+	 * @param options Whether to merge with or replace the existing notes
+	 * @returns Details about which notes were added
+	 */
+	merge (
+		notesToAdd: Iterable<Usernote>,
+		options: UsernotesImportOptions = {},
+	): UsernotesImportResult {
+		if (options.mode === 'replace') {
+			this.users.clear();
+			this.extraFields.users.clear();
+		}
+
+		const result: UsernotesImportResult = {added: [], duplicates: []};
+		for (const note of notesToAdd) {
+			if (this.findNote(note)) {
+				result.duplicates.push(note);
+				continue;
+			}
+			// keep notes on a user together under the spelling already used
+			const username = this.findSpelling(note.username) ?? note.username;
+			const addedNote = username === note.username
+				? note
+				: {...note, username};
+			this.add(addedNote);
+			result.added.push(addedNote);
+		}
+
+		// added notes can be in any order; keep each list newest-first
+		for (const notes of this.users.values()) {
+			notes.sort((a, b) => +b.timestamp - +a.timestamp);
+		}
+		return result;
+	}
+
+	/**
+	 * Makes a copy of these notes, including everything needed to write them
+	 * back the same way. Changes to the copy don't affect the original, and
+	 * vice versa.
+	 */
+	clone (): Usernotes {
+		const copy = new Usernotes() as this;
+		for (const key of Object.keys(this) as (keyof this)[]) {
+			copy[key] = deepCopy(this[key]);
+		}
+
+		// raw notes are looked up by note, and the copy has new note objects
+		copy.rawNotes = new WeakMap();
+		for (const [username, notes] of this.users) {
+			copy.users.get(username)!.forEach((note, i) => {
+				const rawNote = this.rawNotes.get(notes[i]!);
+				if (rawNote) {
+					copy.rawNotes.set(note, rawNote);
+				}
+			});
+		}
+		return copy;
+	}
+
+	/**
+	 * Finds a note, looking under every spelling of its user's name that
+	 * differs only by case.
+	 * @returns The list the note is in and its index, or `undefined` if the
+	 * note wasn't found
+	 */
+	private findNote (
+		id: UsernoteIdentifier,
+	): {notes: Usernote[]; index: number} | undefined {
+		const usernameLowercase = id.username.toLowerCase();
+		for (const [spelling, notes] of this.users) {
+			if (spelling.toLowerCase() !== usernameLowercase) {
+				continue;
+			}
+			const index = findNoteIndex(notes, id);
+			if (index !== -1) {
+				return {notes, index};
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Finds the spelling a user's notes are stored under, preferring the given
+	 * spelling if notes are stored under more than one.
+	 * @returns The spelling, or `undefined` if the user has no notes
+	 */
+	private findSpelling (username: string): string | undefined {
+		if (this.users.get(username)?.length) {
+			return username;
+		}
+		const usernameLowercase = username.toLowerCase();
+		for (const [spelling, notes] of this.users) {
+			if (notes.length && spelling.toLowerCase() === usernameLowercase) {
+				return spelling;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Makes a changed copy of a note which is written back the same way as
+	 * the original.
+	 */
+	private copyNote (note: Usernote, changes: Partial<Usernote>): Usernote {
+		const copy = {...note, ...changes};
+		const rawNote = this.rawNotes.get(note);
+		if (rawNote) {
+			this.rawNotes.set(copy, rawNote);
+		}
+		return copy;
+	}
+
+	/**
+	 * Moves the unknown fields of a user stored under one spelling onto
+	 * another. Fields already on the other spelling take priority.
+	 */
+	private mergeUserExtraFields (from: string, to: string): void {
+		const fromFields = this.extraFields.users.get(from);
+		if (!fromFields) {
+			return;
+		}
+		this.extraFields.users.set(to, {
+			...fromFields,
+			...this.extraFields.users.get(to),
+		});
+		this.extraFields.users.delete(from);
+	}
+
 	/**
 	 * Serializes the usernotes data for writing back to the wiki. **This method
 	 * returns an object; you probably want {@linkcode toString} instead.**
+	 * Fields this library doesn't know about are written back as they were
+	 * read.
 	 * @returns Object which can be serialized to JSON and written as the
 	 * contents of the `usernotes` wiki page
 	 */
 	toJSON (): RawUsernotes {
+		// Start from the moderators and note types of the page we read, so
+		// notes keep the same indexes, and add any new ones to the end
 		const constants: RawUsernotesConstants = {
-			users: [],
-			warnings: [],
+			users: [...this.originalConstants.users],
+			warnings: [...this.originalConstants.warnings],
 		};
 
 		// Reduce the array of notes into a raw users object, building the
@@ -134,46 +791,51 @@ export class Usernotes {
 			}
 
 			// Add space for this user in the users object
-			usersObject[username] = {ns: []};
+			usersObject[username] = orderKeys({
+				ns: [],
+				...this.extraFields.users.get(username),
+			}, this.keyOrder.users.get(username));
 
 			for (const note of notes) {
-				// Add moderator username to constants.users if they're not there
-				// TODO: what's the correct handling of this for lowercase names again
-				let modIndex = constants.users.indexOf(note.moderatorUsername);
-				if (modIndex === -1) {
-					modIndex = constants.users.length;
-					constants.users.push(note.moderatorUsername);
-				}
-
-				// Add note type key to constants.warnings if it's not there
+				const rawNote = this.rawNotes.get(note);
+				// Moderator names are matched exactly; spellings that differ only
+				// by case are merged by normalizeUsernames, not here
+				const modIndex = constantIndex(
+					constants.users,
+					note.moderatorUsername,
+					rawNote?.m,
+				);
 				let typeKeyIndex;
 				if (note.noteType != null) {
-					typeKeyIndex = constants.warnings.indexOf(note.noteType);
-					if (typeKeyIndex === -1) {
-						typeKeyIndex = constants.warnings.length;
-						constants.warnings.push(note.noteType);
-					}
+					typeKeyIndex = constantIndex(
+						constants.warnings,
+						note.noteType,
+						rawNote?.w,
+					);
 				}
 
 				// Serialize this note and add it to the notes array
-				usersObject[note.username].ns.push({
+				usersObject[note.username].ns.push(orderKeys({
 					t: Math.round((+note.timestamp) / 1000),
 					n: note.text,
 					m: modIndex,
 					w: typeKeyIndex,
-					l: note.contextPermalink == null
-						? undefined
-						: squashPermalink(note.contextPermalink),
-				});
+					l: squashLink(note.contextPermalink, rawNote?.l),
+					...pickExtraFields(note.extraFields ?? {}, RAW_NOTE_KEYS),
+				}, rawNote && Object.keys(rawNote)));
 			}
 		}
 
 		// Compress the users object and combine with other stuff
-		return {
+		return orderKeys({
 			ver: LATEST_KNOWN_USERNOTES_SCHEMA,
-			constants,
+			constants: orderKeys(
+				{...constants, ...this.extraFields.constants},
+				this.keyOrder.constants,
+			),
 			blob: compressBlob(usersObject),
-		};
+			...this.extraFields.page,
+		}, this.keyOrder.page);
 	}
 
 	/**
@@ -188,3 +850,220 @@ export class Usernotes {
 		return JSON.stringify(this, null, indent);
 	}
 }
+
+/**
+ * Collects the fields of a raw object that aren't in a list of known keys.
+ * @returns The unknown fields, or `undefined` if there aren't any
+ */
+function pickExtraFields (
+	raw: object,
+	knownKeys: string[],
+): Record<string, unknown> | undefined {
+	let extraFields: Record<string, unknown> | undefined;
+	for (const [key, value] of Object.entries(raw)) {
+		if (!knownKeys.includes(key)) {
+			extraFields ??= {};
+			extraFields[key] = value;
+		}
+	}
+	return extraFields;
+}
+
+/**
+ * Squashes a note's context link for writing back to the wiki. If the note was
+ * read with a link that still expands to the same thing, that link is kept as
+ * it was, even if it isn't in the form this library would write.
+ */
+function squashLink (
+	permalink: string | undefined,
+	originalLink?: string,
+): string | undefined {
+	if (permalink == null) {
+		return undefined;
+	}
+	if (
+		typeof originalLink === 'string'
+		&& expandPermalink(originalLink) === permalink
+	) {
+		return originalLink;
+	}
+	return squashPermalink(permalink);
+}
+
+/**
+ * Copies an object with its keys in the given order. Keys that aren't in the
+ * order come after the ones that are, in the order they're already in.
+ */
+function orderKeys<T extends object> (value: T, order: string[] = []): T {
+	const ordered: Record<string, unknown> = {};
+	for (const key of [...order, ...Object.keys(value)]) {
+		if (
+			Object.prototype.hasOwnProperty.call(value, key)
+			&& !Object.prototype.hasOwnProperty.call(ordered, key)
+		) {
+			ordered[key] = value[key];
+		}
+	}
+	return ordered as T;
+}
+
+/**
+ * Finds the index of a moderator or note type in a constants array, adding it
+ * to the end if it's not there. The index a note was read with is kept if it
+ * still points to the same value, since the array may have duplicates.
+ */
+function constantIndex (
+	values: (string | null)[],
+	value: string,
+	originalIndex?: number | null,
+): number {
+	if (originalIndex != null && values[originalIndex] === value) {
+		return originalIndex;
+	}
+	let index = values.indexOf(value);
+	if (index === -1) {
+		index = values.length;
+		values.push(value);
+	}
+	return index;
+}
+
+/**
+ * Copies a value made of plain objects, arrays, maps, dates, and primitives,
+ * all the way down.
+ */
+function deepCopy<T> (value: T): T {
+	if (value instanceof Date) {
+		return new Date(+value) as T;
+	}
+	if (value instanceof Map) {
+		return new Map(
+			[...value].map(([key, item]) => [key, deepCopy(item)]),
+		) as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map(deepCopy) as T;
+	}
+	if (typeof value === 'object' && value !== null) {
+		const copy: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			copy[key] = deepCopy(item);
+		}
+		return copy as T;
+	}
+	return value;
+}
+
+/**
+ * Converts a query option that may be a single value or a list of values into a
+ * list.
+ */
+function toList<T> (value: T | T[]): T[] {
+	return Array.isArray(value) ? value : [value];
+}
+
+/** Checks whether a single usernote meets the criteria of a query. */
+function noteMatchesQuery (note: Usernote, query: UsernoteQuery): boolean {
+	if (
+		query.username != null
+		&& !toList(query.username).some(username =>
+			username.toLowerCase() === note.username.toLowerCase()
+		)
+	) {
+		return false;
+	}
+	if (
+		query.moderatorUsername != null
+		&& !toList(query.moderatorUsername).some(moderatorUsername =>
+			moderatorUsername.toLowerCase()
+				=== note.moderatorUsername.toLowerCase()
+		)
+	) {
+		return false;
+	}
+	if (
+		query.noteType !== undefined
+		&& !toList(query.noteType).includes(note.noteType ?? null)
+	) {
+		return false;
+	}
+	if (query.from && note.timestamp < query.from) {
+		return false;
+	}
+	if (query.to && note.timestamp >= query.to) {
+		return false;
+	}
+	if (query.text != null) {
+		// `search` ignores `lastIndex`, so global regexes behave consistently
+		const found = typeof query.text === 'string'
+			? note.text.toLowerCase().includes(query.text.toLowerCase())
+			: note.text.search(query.text) !== -1;
+		if (!found) {
+			return false;
+		}
+	}
+	if (
+		query.hasContextPermalink != null
+		&& query.hasContextPermalink !== !!note.contextPermalink
+	) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Records a use of a name's spelling, grouping spellings by their lowercased
+ * form.
+ * @param spellings Map of lowercased names to counts of each spelling
+ * @param name The spelling of the name that was used
+ * @param count The number of times it was used
+ */
+function addSpelling (
+	spellings: Map<string, Map<string, number>>,
+	name: string,
+	count: number,
+) {
+	const key = name.toLowerCase();
+	let counts = spellings.get(key);
+	if (!counts) {
+		counts = new Map();
+		spellings.set(key, counts);
+	}
+	counts.set(name, (counts.get(name) ?? 0) + count);
+}
+
+/**
+ * Picks the canonical spelling out of several spellings of the same name. See
+ * {@linkcode Usernotes.normalizeUsernames} for how it's chosen.
+ * @param counts Map of spellings to the number of times each was used
+ * @returns A description of the collision, or `undefined` if there's only one
+ * spelling
+ */
+function resolveCollision (
+	counts: Map<string, number>,
+): UsernameCollision | undefined {
+	if (counts.size < 2) {
+		return undefined;
+	}
+	const hasCapitals = (name: string) => name !== name.toLowerCase();
+	const [canonical, ...merged] = [...counts.keys()].sort((a, b) =>
+		+hasCapitals(b) - +hasCapitals(a)
+		|| counts.get(b)! - counts.get(a)!
+		|| (a < b ? -1 : 1)
+	);
+	return {
+		canonical: canonical!,
+		merged,
+		notesMoved: merged.reduce((sum, name) => sum + counts.get(name)!, 0),
+	};
+}
+
+/**
+ * Finds the index of the note matching the given identifier in a list of notes
+ * on the same user, comparing timestamps to the second since that's the
+ * precision they're stored with.
+ */
+function findNoteIndex (notes: Usernote[], id: UsernoteIdentifier): number {
+	const key = getUsernoteKey(id);
+	return notes.findIndex(note => getUsernoteKey(note) === key);
+}
@@ -0,0 +1,135 @@
+import type {RedditAPIClient} from '@devvit/public-api';
+import test from 'ava';
+import {MemoryCacheStorage, WikiPageCache} from './WikiPageCache';
+
+/**
+ * Creates a stand-in Reddit API client which only knows the latest revision of
+ * every wiki page. The client itself is `client`; the other properties control
+ * and record how it's used.
+ */
+function fakeReddit (latestRevisionId: string) {
+	const reddit = {
+		latestRevisionId,
+		revisionChecks: 0,
+		client: {
+			getWikiPageRevisions () {
+				reddit.revisionChecks += 1;
+				return {get: async () => [{id: reddit.latestRevisionId}]};
+			},
+		} as unknown as RedditAPIClient,
+	};
+	return reddit;
+}
+
+const snapshot = {content: 'page contents', revisionId: 'rev1'};
+
+test('MemoryCacheStorage', async t => {
+	const storage = new MemoryCacheStorage();
+	t.is(await storage.get('key'), undefined);
+	await storage.set('key', 'value');
+	t.is(await storage.get('key'), 'value');
+	await storage.del('key');
+	t.is(await storage.get('key'), undefined);
+});
+
+test('get: use fresh entries without checking revisions', async t => {
+	const reddit = fakeReddit('rev2');
+	const cache = new WikiPageCache(reddit.client, {
+		storage: new MemoryCacheStorage(),
+		ttl: 60 * 1000,
+	});
+
+	t.is(await cache.get('subreddit', 'page'), undefined);
+	await cache.set('Subreddit', 'page', snapshot);
+	t.deepEqual(await cache.get('subreddit', 'page'), snapshot);
+	t.is(reddit.revisionChecks, 0);
+});
+
+test('get: check revisions of expired entries', async t => {
+	const reddit = fakeReddit('rev1');
+	const cache = new WikiPageCache(reddit.client, {
+		storage: new MemoryCacheStorage(),
+		ttl: 0,
+	});
+	await cache.set('subreddit', 'page', snapshot);
+
+	t.deepEqual(await cache.get('subreddit', 'page'), snapshot);
+	t.is(reddit.revisionChecks, 1);
+
+	reddit.latestRevisionId = 'rev2';
+	t.is(await cache.get('subreddit', 'page'), undefined);
+	t.is(reddit.revisionChecks, 2);
+});
+
+test('get: discard expired entries when not checking revisions', async t => {
+	const reddit = fakeReddit('rev1');
+	const cache = new WikiPageCache(reddit.client, {
+		storage: new MemoryCacheStorage(),
+		ttl: 0,
+		checkRevisions: false,
+	});
+	await cache.set('subreddit', 'page', snapshot);
+
+	t.is(await cache.get('subreddit', 'page'), undefined);
+	t.is(reddit.revisionChecks, 0);
+});
+
+test('get: share entries through custom storage', async t => {
+	const storage = new MemoryCacheStorage();
+	const reddit = fakeReddit('rev1');
+	await new WikiPageCache(reddit.client, {storage, keyPrefix: 'x:'})
+		.set('subreddit', 'page', snapshot);
+
+	t.truthy(await storage.get('x:subreddit:page'));
+	t.deepEqual(
+		await new WikiPageCache(reddit.client, {storage, keyPrefix: 'x:'})
+			.get('subreddit', 'page'),
+		snapshot,
+	);
+});
+
+test('invalidate', async t => {
+	const cache = new WikiPageCache(fakeReddit('rev1').client, {
+		storage: new MemoryCacheStorage(),
+	});
+	await cache.set('subreddit', 'page', snapshot);
+	await cache.invalidate('subreddit', 'page');
+	t.is(await cache.get('subreddit', 'page'), undefined);
+});
+
+test('get: share the default storage between caches', async t => {
+	const reddit = fakeReddit('rev1');
+	await new WikiPageCache(reddit.client, {keyPrefix: 'shared:'})
+		.set('subreddit', 'page', snapshot);
+	t.deepEqual(
+		await new WikiPageCache(reddit.client, {keyPrefix: 'shared:'})
+			.get('subreddit', 'page'),
+		snapshot,
+	);
+});
+
+test('getParsed: parse each revision once', t => {
+	const storage = new MemoryCacheStorage();
+	const reddit = fakeReddit('rev1');
+	let parses = 0;
+	const parse = (content: string) => {
+		parses += 1;
+		return {content};
+	};
+
+	const first = new WikiPageCache(reddit.client, {storage})
+		.getParsed('subreddit', 'page', snapshot, 'a', parse);
+	const second = new WikiPageCache(reddit.client, {storage})
+		.getParsed('subreddit', 'page', snapshot, 'a', parse);
+	t.is(first, second);
+	t.is(parses, 1);
+
+	const cache = new WikiPageCache(reddit.client, {storage});
+	cache.getParsed('subreddit', 'page', snapshot, 'b', parse);
+	t.is(parses, 2, 'variants are parsed separately');
+	const changed = {content: 'new contents', revisionId: 'rev2'};
+	t.deepEqual(cache.getParsed('subreddit', 'page', changed, 'a', parse), {
+		content: 'new contents',
+	});
+	t.is(parses, 3);
+});
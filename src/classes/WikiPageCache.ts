@@ -0,0 +1,179 @@
+import {RedditAPIClient} from '@devvit/public-api';
+import {
+	ToolboxCacheOptions,
+	ToolboxCacheStorage,
+	WikiPageSnapshot,
+} from '../types/Cache';
+
+/** How long cached pages are used without checking for changes by default. */
+const DEFAULT_CACHE_TTL = 30 * 1000;
+
+/** A {@linkcode ToolboxCacheStorage} which keeps values in memory. */
+export class MemoryCacheStorage implements ToolboxCacheStorage {
+	private values = new Map<string, string>();
+
+	async get (key: string): Promise<string | undefined> {
+		return this.values.get(key);
+	}
+
+	async set (key: string, value: string): Promise<void> {
+		this.values.set(key, value);
+	}
+
+	async del (key: string): Promise<void> {
+		this.values.delete(key);
+	}
+}
+
+/**
+ * The storage used by caches that aren't given one. It's shared by every
+ * client in the same process, so pages cached while handling one event can be
+ * reused while handling the next.
+ */
+const defaultStorage = new MemoryCacheStorage();
+
+/**
+ * Parsed forms of cached pages, kept in memory for each storage. Only the
+ * latest parsed revision of each page is kept.
+ */
+const parsedPages = new WeakMap<
+	ToolboxCacheStorage,
+	Map<string, {revisionId: string; value: unknown}>
+>();
+
+/** A cached page, as it's stored */
+interface WikiPageCacheEntry extends WikiPageSnapshot {
+	/** When the page was last known to be up to date (ms since epoch) */
+	checkedAt: number;
+}
+
+/**
+ * Caches the contents of wiki pages, deciding when cached contents are stale
+ * based on age and on the page's latest revision.
+ */
+export class WikiPageCache {
+	private reddit: RedditAPIClient;
+	private storage: ToolboxCacheStorage;
+	private ttl: number;
+	private checkRevisions: boolean;
+	private keyPrefix: string;
+
+	constructor (reddit: RedditAPIClient, options: ToolboxCacheOptions = {}) {
+		this.reddit = reddit;
+		this.storage = options.storage ?? defaultStorage;
+		this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+		this.checkRevisions = options.checkRevisions ?? true;
+		this.keyPrefix = options.keyPrefix ?? 'toolbox-devvit:';
+	}
+
+	/** Gets the storage key for a page. */
+	private key (subreddit: string, page: string) {
+		return `${this.keyPrefix}${subreddit.toLowerCase()}:${page}`;
+	}
+
+	/**
+	 * Gets the cached contents of a page, if they're still up to date.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @returns Promise which resolves to the cached page, or `undefined` if
+	 * the page isn't cached or may have changed
+	 */
+	async get (
+		subreddit: string,
+		page: string,
+	): Promise<WikiPageSnapshot | undefined> {
+		const key = this.key(subreddit, page);
+		const stored = await this.storage.get(key);
+		if (stored == null) {
+			return undefined;
+		}
+
+		let entry: WikiPageCacheEntry;
+		try {
+			entry = JSON.parse(stored);
+		} catch (error) {
+			// whatever's in there isn't ours; pretend it isn't there
+			return undefined;
+		}
+
+		if (Date.now() - entry.checkedAt < this.ttl) {
+			return {content: entry.content, revisionId: entry.revisionId};
+		}
+		if (!this.checkRevisions) {
+			return undefined;
+		}
+
+		// The entry is old, but it's still good if nobody's edited the page
+		const [latestRevision] = await this.reddit.getWikiPageRevisions({
+			subredditName: subreddit,
+			page,
+			limit: 1,
+		}).get(1);
+		if (latestRevision?.id !== entry.revisionId) {
+			return undefined;
+		}
+		await this.set(subreddit, page, entry);
+		return {content: entry.content, revisionId: entry.revisionId};
+	}
+
+	/**
+	 * Caches the contents of a page.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @param snapshot The page contents and the revision they're from
+	 */
+	async set (
+		subreddit: string,
+		page: string,
+		snapshot: WikiPageSnapshot,
+	): Promise<void> {
+		const entry: WikiPageCacheEntry = {
+			content: snapshot.content,
+			revisionId: snapshot.revisionId,
+			checkedAt: Date.now(),
+		};
+		await this.storage.set(this.key(subreddit, page), JSON.stringify(entry));
+	}
+
+	/**
+	 * Gets the parsed form of a page. Each revision of a page is only parsed
+	 * once; later calls for the same revision return the same object, so
+	 * callers should copy it before handing it out.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 * @param snapshot The page contents and the revision they're from
+	 * @param variant Distinguishes different ways of parsing the same page
+	 * @param parse Parses the page contents
+	 * @returns The parsed page
+	 */
+	getParsed<T> (
+		subreddit: string,
+		page: string,
+		snapshot: WikiPageSnapshot,
+		variant: string,
+		parse: (content: string) => T,
+	): T {
+		let pages = parsedPages.get(this.storage);
+		if (!pages) {
+			pages = new Map();
+			parsedPages.set(this.storage, pages);
+		}
+		const key = `${this.key(subreddit, page)}:${variant}`;
+		const parsed = pages.get(key);
+		if (parsed?.revisionId === snapshot.revisionId) {
+			return parsed.value as T;
+		}
+		const value = parse(snapshot.content);
+		pages.set(key, {revisionId: snapshot.revisionId, value});
+		return value;
+	}
+
+	/**
+	 * Removes a page from the cache.
+	 * @param subreddit Name of the subreddit the page is in
+	 * @param page Name of the page
+	 */
+	async invalidate (subreddit: string, page: string): Promise<void> {
+		await this.storage.del(this.key(subreddit, page));
+	}
+}
@@ -0,0 +1,213 @@
+import {UsernotesDiagnostic} from '../types/RawUsernotes';
+import {UsernoteIdentifier} from '../types/Usernote';
+
+/**
+ * Thrown when a usernotes write can't be completed because the `usernotes` wiki
+ * page was changed by someone else after the notes were read, and the change
+ * couldn't be reapplied on top of the newer revision.
+ */
+export class UsernotesConflictError extends Error {
+	name = 'UsernotesConflictError';
+
+	constructor (
+		/** The subreddit whose usernotes were being written */
+		public subreddit: string,
+		/** The wiki revision ID the pending changes were based on */
+		public expectedRevisionId: string,
+		/** The wiki revision ID that was current when the write was aborted */
+		public actualRevisionId: string,
+		/** The number of write attempts made before giving up */
+		public attempts: number,
+	) {
+		super(
+			`Usernotes in /r/${subreddit} were modified by someone else (expected revision ${expectedRevisionId}, found ${actualRevisionId}) after ${attempts} attempt(s)`,
+		);
+	}
+}
+
+/** Thrown when an operation targets a usernote that doesn't exist. */
+export class UsernoteNotFoundError extends Error {
+	name = 'UsernoteNotFoundError';
+
+	constructor (
+		/** The identifier of the note that couldn't be found */
+		public note: UsernoteIdentifier,
+	) {
+		super(
+			`No note on user ${note.username} by ${note.moderatorUsername} at ${note.timestamp.toISOString()}`,
+		);
+	}
+}
+
+/**
+ * Thrown when content can't be written to a wiki page because it's larger than
+ * Reddit allows.
+ */
+export class WikiSizeLimitError extends Error {
+	name = 'WikiSizeLimitError';
+
+	constructor (
+		/** The name of the wiki page that was being written */
+		public page: string,
+		/** The size of the content that was rejected, in bytes */
+		public size: number,
+		/** The maximum size of a wiki page, in bytes */
+		public limit: number,
+	) {
+		super(
+			`Content for wiki page ${page} is ${size} bytes, which exceeds the limit of ${limit} bytes`,
+		);
+	}
+}
+
+/**
+ * Thrown when a wiki page is stored in a schema version this library doesn't
+ * know how to read.
+ */
+export class UnsupportedSchemaVersionError extends Error {
+	name = 'UnsupportedSchemaVersionError';
+
+	constructor (
+		/** The kind of data that was being read */
+		public kind: 'usernotes' | 'config',
+		/** The schema version the data reported */
+		public version: unknown,
+		/** The earliest schema version this library can read */
+		public earliestSupported: number,
+		/** The latest schema version this library can read */
+		public latestSupported: number,
+	) {
+		super(
+			`Unsupported ${kind} schema version ${version} (supported versions are ${earliestSupported} to ${latestSupported})`,
+		);
+	}
+}
+
+/**
+ * Thrown when usernotes can't be read because the data on the wiki page is
+ * malformed.
+ */
+export class CorruptUsernotesError extends Error {
+	name = 'CorruptUsernotesError';
+
+	constructor (
+		/** The problem that made the data unreadable */
+		public diagnostic: UsernotesDiagnostic,
+		/** The underlying error, if there was one */
+		public cause?: unknown,
+	) {
+		super(
+			`Usernotes are corrupt: ${diagnostic.path || 'page'}: ${diagnostic.issue}`,
+		);
+	}
+}
+
+/**
+ * Thrown when subreddit config can't be read because the data on the wiki page
+ * is malformed.
+ */
+export class CorruptConfigError extends Error {
+	name = 'CorruptConfigError';
+
+	constructor (
+		/** The underlying error */
+		public cause?: unknown,
+	) {
+		super(
+			`Toolbox config is corrupt: ${
+				cause instanceof Error ? cause.message : String(cause)
+			}`,
+		);
+	}
+}
+
+/** Thrown when a wiki page that's needed doesn't exist. */
+export class WikiPageMissingError extends Error {
+	name = 'WikiPageMissingError';
+
+	constructor (
+		/** The subreddit the page was expected in */
+		public subreddit: string,
+		/** The name of the page */
+		public page: string,
+		/** The error reported by Reddit */
+		public cause?: unknown,
+	) {
+		super(`Wiki page ${page} doesn't exist in /r/${subreddit}`);
+	}
+}
+
+/**
+ * Thrown when Reddit refuses to let the app read or write a wiki page, usually
+ * because the app account isn't a moderator with wiki permissions.
+ */
+export class WikiPermissionError extends Error {
+	name = 'WikiPermissionError';
+
+	constructor (
+		/** The subreddit the page is in */
+		public subreddit: string,
+		/** The name of the page */
+		public page: string,
+		/** Whether the page was being read or written */
+		public operation: 'read' | 'write',
+		/** The error reported by Reddit */
+		public cause?: unknown,
+	) {
+		super(`Not allowed to ${operation} wiki page ${page} in /r/${subreddit}`);
+	}
+}
+
+/** Thrown when usernotes can't be imported because a row is invalid. */
+export class UsernotesImportError extends Error {
+	name = 'UsernotesImportError';
+
+	constructor (
+		/** The number of the invalid row, starting at 1 for the first note */
+		public row: number,
+		/** A description of the problem */
+		public problem: string,
+	) {
+		super(`Can't import usernotes: row ${row}: ${problem}`);
+	}
+}
+
+/** Descriptions of each {@linkcode RemovalReasonsSourceError} problem. */
+const removalReasonsProblemDescriptions = {
+	cycle: 'subreddits refer to each other in a loop',
+	depth: 'too many subreddits to follow',
+	missing: 'source subreddit has no toolbox config',
+	inaccessible: 'source subreddit config could not be read',
+};
+
+/**
+ * Thrown when a subreddit gets its removal reasons from another subreddit, but
+ * they can't be loaded from there.
+ */
+export class RemovalReasonsSourceError extends Error {
+	name = 'RemovalReasonsSourceError';
+
+	constructor (
+		/**
+		 * What went wrong:
+		 * - `cycle` - the subreddits refer back to each other in a loop
+		 * - `depth` - too many subreddits would need to be followed
+		 * - `missing` - the last subreddit in the chain has no toolbox config
+		 * - `inaccessible` - the last subreddit's config couldn't be read
+		 */
+		public problem: 'cycle' | 'depth' | 'missing' | 'inaccessible',
+		/**
+		 * The names of the subreddits involved, starting with the one whose
+		 * removal reasons were requested
+		 */
+		public chain: string[],
+		/** The underlying error, if the config couldn't be read */
+		public cause?: unknown,
+	) {
+		super(
+			`Can't load removal reasons for /r/${chain[0]} (${
+				chain.map(name => `/r/${name}`).join(' -> ')
+			}): ${removalReasonsProblemDescriptions[problem]}`,
+		);
+	}
+}
@@ -0,0 +1,159 @@
+import test from 'ava';
+import {SubredditConfig} from '../classes/SubredditConfig';
+import {Usernotes} from '../classes/Usernotes';
+import {analyzeUsernotes, formatUsernotesAnalyticsMarkdown} from './analytics';
+
+/** Creates usernotes from a list of notes, given as [user, mod, date, type]. */
+function usernotesWith (notes: [string, string, string, string?][]) {
+	const usernotes = new Usernotes();
+	for (const [username, moderatorUsername, date, noteType] of notes) {
+		usernotes.add({
+			username,
+			moderatorUsername,
+			noteType,
+			text: 'note',
+			timestamp: new Date(date),
+		});
+	}
+	return usernotes;
+}
+
+const usernotes = usernotesWith([
+	['someUser', 'someMod', '2024-01-01T12:00:00Z', 'ban'],
+	['SomeUser', 'otherMod', '2024-01-02T12:00:00Z', 'spamwarn'],
+	['otherUser', 'someMod', '2024-01-09T12:00:00Z', 'ban'],
+	['someUser', 'SomeMod', '2024-03-15T12:00:00Z', 'custom'],
+	['thirdUser', 'otherMod', '2024-03-16T12:00:00Z'],
+]);
+
+test('analyzeUsernotes', t => {
+	const stats = analyzeUsernotes(usernotes, new SubredditConfig());
+
+	t.is(stats.total, 5);
+	t.deepEqual(stats.first, new Date('2024-01-01T12:00:00Z'));
+	t.deepEqual(stats.last, new Date('2024-03-16T12:00:00Z'));
+	t.deepEqual(stats.byModerator, [
+		{moderator: 'SomeMod', count: 3},
+		{moderator: 'otherMod', count: 2},
+	]);
+	t.deepEqual(stats.byNoteType, [
+		{noteType: 'ban', label: 'Ban', color: 'red', count: 2},
+		{noteType: 'custom', label: 'custom', color: undefined, count: 1},
+		{
+			noteType: 'spamwarn',
+			label: 'Spam Warning',
+			color: 'purple',
+			count: 1,
+		},
+		{noteType: undefined, label: undefined, color: undefined, count: 1},
+	]);
+	t.deepEqual(stats.mostNotedUsers, [
+		{
+			username: 'someUser',
+			count: 3,
+			latest: new Date('2024-03-15T12:00:00Z'),
+		},
+		{
+			username: 'otherUser',
+			count: 1,
+			latest: new Date('2024-01-09T12:00:00Z'),
+		},
+		{
+			username: 'thirdUser',
+			count: 1,
+			latest: new Date('2024-03-16T12:00:00Z'),
+		},
+	]);
+	t.deepEqual(stats.overTime, [
+		{start: new Date('2024-01-01T00:00:00Z'), count: 3},
+		{start: new Date('2024-02-01T00:00:00Z'), count: 0},
+		{start: new Date('2024-03-01T00:00:00Z'), count: 2},
+	]);
+});
+
+test('analyzeUsernotes: filter notes and group by week or day', t => {
+	const filter = {to: new Date('2024-02-01T00:00:00Z')};
+	const weekly = analyzeUsernotes(usernotes, undefined, {
+		filter,
+		bucket: 'week',
+		topUsers: 1,
+	});
+	t.is(weekly.total, 3);
+	t.deepEqual(weekly.mostNotedUsers.map(user => user.username), ['SomeUser']);
+	// 2024-01-01 is a Monday
+	t.deepEqual(weekly.overTime, [
+		{start: new Date('2024-01-01T00:00:00Z'), count: 2},
+		{start: new Date('2024-01-08T00:00:00Z'), count: 1},
+	]);
+
+	const daily = analyzeUsernotes(usernotes, undefined, {
+		filter,
+		bucket: 'day',
+	});
+	t.is(daily.overTime.length, 9);
+	t.like(daily.overTime[1], {count: 1});
+	t.like(daily.overTime[2], {count: 0});
+});
+
+test('analyzeUsernotes: limit how many empty periods are filled in', t => {
+	const stats = analyzeUsernotes(usernotesWith([
+		['someUser', 'someMod', '1970-01-01T00:00:00Z'],
+		['someUser', 'someMod', '2024-01-01T12:00:00Z'],
+		['someUser', 'someMod', '2024-01-03T12:00:00Z'],
+	]), undefined, {bucket: 'day'});
+	t.deepEqual(stats.overTime, [
+		{start: new Date('1970-01-01T00:00:00Z'), count: 1},
+		{start: new Date('2024-01-01T00:00:00Z'), count: 1},
+		{start: new Date('2024-01-03T00:00:00Z'), count: 1},
+	]);
+});
+
+test('formatUsernotesAnalyticsMarkdown', t => {
+	const stats = analyzeUsernotes(usernotes, new SubredditConfig());
+	t.is(
+		formatUsernotesAnalyticsMarkdown(stats, {title: 'Monthly report'}),
+		[
+			'## Monthly report',
+			'',
+			'5 notes from 2024-01-01 to 2024-03-16.',
+			'',
+			'### Notes by moderator',
+			'',
+			'| Moderator | Notes |',
+			'| :-- | --: |',
+			'| /u/SomeMod | 3 |',
+			'| /u/otherMod | 2 |',
+			'',
+			'### Notes by type',
+			'',
+			'| Type | Notes | Share |',
+			'| :-- | --: | --: |',
+			'| Ban | 2 | 40% |',
+			'| custom | 1 | 20% |',
+			'| Spam Warning | 1 | 20% |',
+			'| *None* | 1 | 20% |',
+			'',
+			'### Most-noted users',
+			'',
+			'| User | Notes | Latest note |',
+			'| :-- | --: | --: |',
+			'| /u/someUser | 3 | 2024-03-15 |',
+			'| /u/otherUser | 1 | 2024-01-09 |',
+			'| /u/thirdUser | 1 | 2024-03-16 |',
+			'',
+			'### Notes over time',
+			'',
+			'| Month | Notes |',
+			'| :-- | --: |',
+			'| 2024-01 | 3 |',
+			'| 2024-02 | 0 |',
+			'| 2024-03 | 2 |',
+			'',
+		].join('\n'),
+	);
+
+	t.is(
+		formatUsernotesAnalyticsMarkdown(analyzeUsernotes(new Usernotes())),
+		'## Usernotes summary\n\nNo notes.\n',
+	);
+});
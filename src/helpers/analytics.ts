@@ -0,0 +1,255 @@
+import {SubredditConfig} from '../classes/SubredditConfig';
+import {Usernotes} from '../classes/Usernotes';
+import {
+	ModeratorNoteCount,
+	NotesOverTimeCount,
+	NoteTypeCount,
+	UserNoteCount,
+	UsernotesAnalytics,
+	UsernotesAnalyticsMarkdownOptions,
+	UsernotesAnalyticsOptions,
+	UsernotesTimeBucket,
+} from '../types/Analytics';
+
+/** The number of most-noted users included by default. */
+const DEFAULT_TOP_USERS = 10;
+
+/**
+ * The most periods the timeline is filled in for. A note with a bad timestamp
+ * from decades ago would otherwise fill the timeline with thousands of empty
+ * periods.
+ */
+const MAX_FILLED_PERIODS = 1000;
+
+/** Returns the start of the period of time the given date falls in. */
+function bucketStart (date: Date, bucket: UsernotesTimeBucket): Date {
+	const year = date.getUTCFullYear();
+	const month = date.getUTCMonth();
+	if (bucket === 'month') {
+		return new Date(Date.UTC(year, month, 1));
+	}
+	let day = date.getUTCDate();
+	if (bucket === 'week') {
+		// getUTCDay() counts from Sunday; count from Monday instead
+		day -= (date.getUTCDay() + 6) % 7;
+	}
+	return new Date(Date.UTC(year, month, day));
+}
+
+/** Returns the start of the period of time after the given one. */
+function nextBucket (start: Date, bucket: UsernotesTimeBucket): Date {
+	const year = start.getUTCFullYear();
+	const month = start.getUTCMonth();
+	const day = start.getUTCDate();
+	if (bucket === 'month') {
+		return new Date(Date.UTC(year, month + 1, 1));
+	}
+	return new Date(Date.UTC(year, month, day + (bucket === 'week' ? 7 : 1)));
+}
+
+/**
+ * Sorts counts with the highest first, breaking ties by the given name. Counts
+ * without a name go last.
+ */
+function byCount<T extends {count: number}> (
+	getName: (item: T) => string | undefined,
+) {
+	return (a: T, b: T) => {
+		const nameA = getName(a)?.toLowerCase();
+		const nameB = getName(b)?.toLowerCase();
+		return b.count - a.count
+			|| +(nameA == null) - +(nameB == null)
+			|| (nameA ?? '').localeCompare(nameB ?? '');
+	};
+}
+
+/**
+ * Computes statistics about a subreddit's usernotes: how many notes each
+ * moderator left, how many notes there are of each note type, which users
+ * have the most notes, and how many notes were left over time.
+ * @param usernotes The subreddit's usernotes
+ * @param config The subreddit's config, used to look up the labels and colors
+ * of note types
+ * @param options Which notes to count and how to group them
+ * @returns The statistics
+ *
+ * @example Get last month's statistics, counted by week:
+ * ```ts
+ * const stats = analyzeUsernotes(usernotes, config, {
+ * 	filter: {from: new Date('2024-01-01'), to: new Date('2024-02-01')},
+ * 	bucket: 'week',
+ * });
+ * ```
+ */
+export function analyzeUsernotes (
+	usernotes: Usernotes,
+	config?: SubredditConfig,
+	options: UsernotesAnalyticsOptions = {},
+): UsernotesAnalytics {
+	const bucket = options.bucket ?? 'month';
+	const {notes} = usernotes.query({
+		...options.filter,
+		sortBy: 'timestamp',
+		order: 'ascending',
+		offset: 0,
+		limit: undefined,
+	});
+
+	// Names are grouped case-insensitively; since notes are sorted oldest
+	// first, the newest spelling of each name wins
+	const moderators = new Map<string, ModeratorNoteCount>();
+	const noteTypes = new Map<string | undefined, NoteTypeCount>();
+	const users = new Map<string, UserNoteCount>();
+	const buckets = new Map<number, NotesOverTimeCount>();
+	for (const note of notes) {
+		const moderator = moderators.get(note.moderatorUsername.toLowerCase())
+			?? {moderator: note.moderatorUsername, count: 0};
+		moderator.moderator = note.moderatorUsername;
+		moderator.count += 1;
+		moderators.set(note.moderatorUsername.toLowerCase(), moderator);
+
+		const key = note.noteType;
+		let noteType = noteTypes.get(key);
+		if (!noteType) {
+			const details = key == null ? undefined : config?.getNoteType(key);
+			noteType = {
+				noteType: key,
+				label: details?.text ?? key,
+				color: details?.color,
+				count: 0,
+			};
+			noteTypes.set(key, noteType);
+		}
+		noteType.count += 1;
+
+		const user = users.get(note.username.toLowerCase())
+			?? {username: note.username, count: 0, latest: note.timestamp};
+		user.username = note.username;
+		user.count += 1;
+		user.latest = note.timestamp;
+		users.set(note.username.toLowerCase(), user);
+
+		const start = bucketStart(note.timestamp, bucket);
+		const period = buckets.get(+start) ?? {start, count: 0};
+		period.count += 1;
+		buckets.set(+start, period);
+	}
+
+	// Fill in the periods without notes so the timeline has no gaps, unless
+	// that would take too many periods; then only periods with notes are
+	// listed
+	let overTime: NotesOverTimeCount[] = [];
+	if (notes.length) {
+		const end = bucketStart(notes[notes.length - 1]!.timestamp, bucket);
+		let start = bucketStart(notes[0]!.timestamp, bucket);
+		while (+start <= +end) {
+			if (overTime.length === MAX_FILLED_PERIODS) {
+				overTime = [...buckets.values()];
+				break;
+			}
+			overTime.push(buckets.get(+start) ?? {start, count: 0});
+			start = nextBucket(start, bucket);
+		}
+	}
+
+	return {
+		total: notes.length,
+		first: notes[0]?.timestamp,
+		last: notes[notes.length - 1]?.timestamp,
+		bucket,
+		byModerator: [...moderators.values()]
+			.sort(byCount(count => count.moderator)),
+		byNoteType: [...noteTypes.values()]
+			.sort(byCount(count => count.label)),
+		mostNotedUsers: [...users.values()]
+			.sort(byCount(count => count.username))
+			.slice(0, options.topUsers ?? DEFAULT_TOP_USERS),
+		overTime,
+	};
+}
+
+/** Formats a date as `YYYY-MM-DD` in UTC. */
+function formatDate (date: Date) {
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Escapes text for use in a Markdown table cell. Usernames don't need this,
+ * and Reddit doesn't link them if they're escaped.
+ */
+function escapeCell (text: string) {
+	return text.replace(/[\\|*_~`[\]]/g, '\\$&').replace(/\s+/g, ' ');
+}
+
+/** Renders a Markdown table. Columns after the first are right-aligned. */
+function table (header: string[], rows: (string | number)[][]) {
+	return [
+		header,
+		header.map((_, i) => i ? '--:' : ':--'),
+		...rows,
+	].map(cells => `| ${cells.join(' | ')} |\n`).join('');
+}
+
+/**
+ * Renders usernote statistics as a Markdown summary, suitable for posting to
+ * a wiki page or sending in modmail.
+ * @param analytics Statistics from {@linkcode analyzeUsernotes}
+ * @param options Options for the summary
+ * @returns The Markdown text
+ */
+export function formatUsernotesAnalyticsMarkdown (
+	analytics: UsernotesAnalytics,
+	options: UsernotesAnalyticsMarkdownOptions = {},
+): string {
+	const sections = [`## ${options.title ?? 'Usernotes summary'}\n`];
+	if (!analytics.first || !analytics.last) {
+		sections.push('No notes.\n');
+		return sections.join('\n');
+	}
+	sections.push(
+		`${analytics.total} ${analytics.total === 1 ? 'note' : 'notes'}`
+			+ ` from ${formatDate(analytics.first)}`
+			+ ` to ${formatDate(analytics.last)}.\n`,
+	);
+
+	const percent = (count: number) =>
+		`${Math.round(count / analytics.total * 100)}%`;
+	sections.push(
+		'### Notes by moderator\n\n' + table(
+			['Moderator', 'Notes'],
+			analytics.byModerator.map(({moderator, count}) => [
+				`/u/${moderator}`,
+				count,
+			]),
+		),
+		'### Notes by type\n\n' + table(
+			['Type', 'Notes', 'Share'],
+			analytics.byNoteType.map(({label, count}) => [
+				label == null ? '*None*' : escapeCell(label),
+				count,
+				percent(count),
+			]),
+		),
+		'### Most-noted users\n\n' + table(
+			['User', 'Notes', 'Latest note'],
+			analytics.mostNotedUsers.map(({username, count, latest}) => [
+				`/u/${username}`,
+				count,
+				formatDate(latest),
+			]),
+		),
+		'### Notes over time\n\n' + table(
+			[
+				{day: 'Day', week: 'Week of', month: 'Month'}[analytics.bucket],
+				'Notes',
+			],
+			analytics.overTime.map(({start, count}) => [
+				analytics.bucket === 'month'
+					? formatDate(start).slice(0, 7)
+					: formatDate(start),
+				count,
+			]),
+		),
+	);
+	return sections.join('\n');
+}
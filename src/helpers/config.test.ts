@@ -1,3 +1,130 @@
 import test from 'ava';
+import {UnsupportedSchemaVersionError} from '../classes/errors';
+import {
+	DEFAULT_CONFIG,
+	DEFAULT_REMOVAL_REASONS_SETTINGS,
+	DEFAULT_USERNOTE_TYPES,
+	denormalizeConfig,
+	migrateConfigToLatestSchema,
+	normalizeConfig,
+} from './config';
+
+test('migrateConfigToLatestSchema: reject unknown schema versions', t => {
+	for (const data of [{ver: 0}, {ver: 2}, {}, null]) {
+		const error = t.throws(() => migrateConfigToLatestSchema(data), {
+			instanceOf: UnsupportedSchemaVersionError,
+		});
+		t.is(error?.kind, 'config');
+		t.is(error?.version, data?.ver);
+	}
+});
 
 test.todo('migrateConfigToLatestSchema');
+
+test('normalizeConfig: fill in the default config', t => {
+	t.deepEqual(normalizeConfig(DEFAULT_CONFIG), {
+		ver: 1,
+		domainTags: [],
+		banMacros: {banNote: '', banMessage: ''},
+		removalReasons: {...DEFAULT_REMOVAL_REASONS_SETTINGS, reasons: []},
+		modMacros: [],
+		usernoteColors: [...DEFAULT_USERNOTE_TYPES],
+	});
+});
+
+test('normalizeConfig: fill in partial items and decode text', t => {
+	const config = normalizeConfig({
+		ver: 1,
+		removalReasons: {
+			header: 'Hi%20%7Bauthor%7D%2C',
+			footer: 'caf%E9',
+			typeReply: 'carrier pigeon',
+			typeAsSub: 'yes',
+			bantitle: null,
+			reasons: [
+				{title: 'Rule 1', text: '%u2713%20done', removePosts: false},
+				'not a reason',
+			],
+			extra: 1,
+		},
+		modMacros: [{title: 'Spam', text: 'Please%20stop', remove: true}],
+		usernoteColors: [{key: 'ban', text: 'Ban'}],
+	});
+
+	t.like(config.removalReasons, {
+		header: 'Hi {author},',
+		footer: 'café',
+		pmsubject: DEFAULT_REMOVAL_REASONS_SETTINGS.pmsubject,
+		typeReply: 'reply',
+		typeAsSub: false,
+		bantitle: '',
+		extra: 1,
+	});
+	t.deepEqual(config.removalReasons.reasons, [{
+		title: 'Rule 1',
+		text: '✓ done',
+		flairText: '',
+		flairCSS: '',
+		removePosts: false,
+		removeComments: true,
+	}]);
+	t.like(config.modMacros[0], {
+		text: 'Please stop',
+		remove: true,
+		ban: false,
+	});
+	t.deepEqual(config.usernoteColors, [{key: 'ban', color: '', text: 'Ban'}]);
+	t.deepEqual(config.banMacros, {banNote: '', banMessage: ''});
+	t.deepEqual(config.domainTags, []);
+});
+
+test('normalizeConfig: accept text encoded with encodeURIComponent', t => {
+	const config = normalizeConfig({
+		ver: 1,
+		modMacros: [{text: encodeURIComponent('✓ 100% done')}],
+	});
+	t.is(config.modMacros[0]!.text, '✓ 100% done');
+});
+
+test('denormalizeConfig: reverse normalizeConfig', t => {
+	const original = {
+		ver: 1,
+		domainTags: '',
+		removalReasons: {
+			header: 'Hi%20%7Bauthor%7D%2C',
+			reasons: [{title: 'Rule 1', text: '%E2%9C%93'}],
+		},
+		modMacros: '',
+		usernoteColors: '',
+		banMacros: '',
+	};
+	const config = normalizeConfig(original);
+	t.deepEqual(denormalizeConfig(config, original), original);
+
+	config.removalReasons.reasons[0]!.text = 'Be nice';
+	config.removalReasons.reasons.push({
+		title: 'Rule 2',
+		text: 'No {spam}',
+		flairText: '',
+		flairCSS: '',
+		removePosts: true,
+		removeComments: false,
+	});
+	t.deepEqual(denormalizeConfig(config, original), {
+		...original,
+		removalReasons: {
+			header: 'Hi%20%7Bauthor%7D%2C',
+			reasons: [
+				{title: 'Rule 1', text: 'Be%20nice'},
+				{
+					title: 'Rule 2',
+					text: 'No%20%7Bspam%7D',
+					flairText: '',
+					flairCSS: '',
+					removePosts: true,
+					removeComments: false,
+				},
+			],
+		},
+	});
+});
@@ -1,4 +1,14 @@
-import {RawSubredditConfig, RawUsernoteType} from '../types/RawSubredditConfig';
+import {UnsupportedSchemaVersionError} from '../classes/errors';
+import {
+	RawDomainTag,
+	RawModMacro,
+	RawRemovalReason,
+	RawSubredditConfig,
+	RawUsernoteType,
+} from '../types/RawSubredditConfig';
+
+// type imports for doc references
+import type {SubredditConfig} from '../classes/SubredditConfig';
 
 /**
  * The latest subreddit config schema version that this library can handle. If a
@@ -25,14 +35,41 @@ export const DEFAULT_USERNOTE_TYPES: readonly RawUsernoteType[] = [
 	{key: 'botban', color: 'black', text: 'Bot Ban'},
 ];
 
+/**
+ * Default removal reason settings, used when a subreddit config doesn't have
+ * any removal reasons set up yet.
+ */
+export const DEFAULT_REMOVAL_REASONS_SETTINGS: Readonly<
+	RawSubredditConfig['removalReasons']
+> = {
+	header: '',
+	footer: '',
+	pmsubject: 'Your {kind} was removed from /r/{subreddit}',
+	logreason: '',
+	logsub: '',
+	logtitle: 'Removed: {kind} by /u/{author} to /r/{subreddit}',
+	bantitle: '',
+	getfrom: '',
+	removalOption: 'suggest',
+	typeReply: 'reply',
+	typeStickied: false,
+	typeCommentAsSubreddit: false,
+	typeLockThread: false,
+	typeLockComment: false,
+	typeAsSub: false,
+	autoArchive: false,
+	reasons: [],
+};
+
 /**
  * Default subreddit configuration to use if subreddit doesnt have one.
  * Empty strings are used in the default config by the plugin even though
- * this doesn't match the type exactly.
+ * this doesn't match the type exactly. Domain tags are the exception: they
+ * default to an empty list, which matches their type.
  */
 export const DEFAULT_CONFIG = {
 	ver: LATEST_KNOWN_CONFIG_SCHEMA,
-	domainTags: '',
+	domainTags: [] as RawDomainTag[],
 	removalReasons: '',
 	modMacros: '',
 	usernoteColors: '',
@@ -46,16 +83,20 @@ export const DEFAULT_CONFIG = {
  * @param data The subreddit config data object read from the wiki, as an object
  * (i.e. you should parse the page contents as JSON to pass into this function)
  * @returns Data object updated to latest schema version
+ * @throws {UnsupportedSchemaVersionError} if the data's schema version is
+ * missing or unsupported
  */
 export function migrateConfigToLatestSchema (data: any): RawSubredditConfig {
-	if (data.ver < EARLIEST_KNOWN_CONFIG_SCHEMA) {
-		throw new TypeError(
-			`Unknown schema version ${data.ver} (earliest known version is ${EARLIEST_KNOWN_CONFIG_SCHEMA})`,
-		);
-	}
-	if (data.ver > LATEST_KNOWN_CONFIG_SCHEMA) {
-		throw new TypeError(
-			`Unknown schema version ${data.ver} (latest known version is ${LATEST_KNOWN_CONFIG_SCHEMA})`,
+	if (
+		typeof data?.ver !== 'number'
+		|| data.ver < EARLIEST_KNOWN_CONFIG_SCHEMA
+		|| data.ver > LATEST_KNOWN_CONFIG_SCHEMA
+	) {
+		throw new UnsupportedSchemaVersionError(
+			'config',
+			data?.ver,
+			EARLIEST_KNOWN_CONFIG_SCHEMA,
+			LATEST_KNOWN_CONFIG_SCHEMA,
 		);
 	}
 
@@ -64,3 +105,272 @@ export function migrateConfigToLatestSchema (data: any): RawSubredditConfig {
 
 	return data as RawSubredditConfig;
 }
+
+/** Returns the value if it's a string, or the fallback otherwise. */
+function stringOr (value: unknown, fallback: string): string {
+	return typeof value === 'string' ? value : fallback;
+}
+
+/** Returns the value if it's a boolean, or the fallback otherwise. */
+function booleanOr (value: unknown, fallback: boolean): boolean {
+	return typeof value === 'boolean' ? value : fallback;
+}
+
+/** Returns the value if it's one of the given options, or the fallback. */
+function oneOf<T extends string> (
+	value: unknown,
+	options: readonly T[],
+	fallback: T,
+): T {
+	return options.includes(value as T) ? value as T : fallback;
+}
+
+/** Checks whether a value is a plain object (not `null` or an array). */
+function isObject (value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Returns the objects in a list, or an empty list if it isn't one. */
+function objectsIn (value: unknown): Record<string, unknown>[] {
+	return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/**
+ * Decodes text the Toolbox extension stores URL-encoded. The extension encodes
+ * with `escape()`, but other tools use `encodeURIComponent()`, so both are
+ * handled. Text that isn't encoded is returned unchanged.
+ */
+function decodeText (text: string): string {
+	try {
+		return decodeURIComponent(text);
+	} catch (error) {
+		// not valid UTF-8 percent-encoding, e.g. `%E9` or `%u00E9`
+		return unescape(text);
+	}
+}
+
+/** Encodes text the same way the Toolbox extension does. */
+function encodeText (text: string): string {
+	return escape(text);
+}
+
+/**
+ * Fills in a complete, correctly typed subreddit config from migrated config
+ * data. Sections the extension leaves as empty strings, missing settings, and
+ * missing or mistyped fields of individual items are replaced with their
+ * defaults; removal reasons that don't say which kinds of items they apply to
+ * apply to both, matching the extension's behavior. The removal message
+ * header and footer and the text of removal reasons and mod macros are stored
+ * URL-encoded by the extension, and are decoded. Unknown fields are kept.
+ * @param data Config data, as returned by
+ * {@linkcode migrateConfigToLatestSchema}
+ * @returns The normalized config
+ */
+export function normalizeConfig (data: unknown): RawSubredditConfig {
+	const config: Record<string, unknown> = isObject(data) ? data : {};
+	const removalReasons = isObject(config.removalReasons)
+		? config.removalReasons
+		: {};
+	const banMacros = isObject(config.banMacros) ? config.banMacros : {};
+	const defaults = DEFAULT_REMOVAL_REASONS_SETTINGS;
+
+	const usernoteColors = objectsIn(config.usernoteColors);
+	return {
+		...config,
+		ver: LATEST_KNOWN_CONFIG_SCHEMA,
+		domainTags: objectsIn(config.domainTags).map((tag): RawDomainTag => ({
+			...tag,
+			name: stringOr(tag.name, ''),
+			color: stringOr(tag.color, ''),
+		})),
+		banMacros: {
+			...banMacros,
+			banNote: stringOr(banMacros.banNote, ''),
+			banMessage: stringOr(banMacros.banMessage, ''),
+		},
+		removalReasons: {
+			...removalReasons,
+			header: decodeText(stringOr(removalReasons.header, defaults.header)),
+			footer: decodeText(stringOr(removalReasons.footer, defaults.footer)),
+			pmsubject: stringOr(removalReasons.pmsubject, defaults.pmsubject),
+			logreason: stringOr(removalReasons.logreason, defaults.logreason),
+			logsub: stringOr(removalReasons.logsub, defaults.logsub),
+			logtitle: stringOr(removalReasons.logtitle, defaults.logtitle),
+			bantitle: stringOr(removalReasons.bantitle, defaults.bantitle),
+			getfrom: stringOr(removalReasons.getfrom, defaults.getfrom),
+			removalOption: oneOf(
+				removalReasons.removalOption,
+				['suggest', 'leave', 'force'],
+				defaults.removalOption,
+			),
+			typeReply: oneOf(
+				removalReasons.typeReply,
+				['reply', 'pm', 'both', 'none'],
+				defaults.typeReply,
+			),
+			typeStickied: booleanOr(
+				removalReasons.typeStickied,
+				defaults.typeStickied,
+			),
+			typeCommentAsSubreddit: booleanOr(
+				removalReasons.typeCommentAsSubreddit,
+				defaults.typeCommentAsSubreddit,
+			),
+			typeLockThread: booleanOr(
+				removalReasons.typeLockThread,
+				defaults.typeLockThread,
+			),
+			typeLockComment: booleanOr(
+				removalReasons.typeLockComment,
+				defaults.typeLockComment,
+			),
+			typeAsSub: booleanOr(removalReasons.typeAsSub, defaults.typeAsSub),
+			autoArchive: booleanOr(
+				removalReasons.autoArchive,
+				defaults.autoArchive,
+			),
+			reasons: objectsIn(removalReasons.reasons).map((
+				reason,
+			): RawRemovalReason => ({
+				...reason,
+				title: stringOr(reason.title, ''),
+				text: decodeText(stringOr(reason.text, '')),
+				flairText: stringOr(reason.flairText, ''),
+				flairCSS: stringOr(reason.flairCSS, ''),
+				removePosts: booleanOr(reason.removePosts, true),
+				removeComments: booleanOr(reason.removeComments, true),
+			})),
+		},
+		modMacros: objectsIn(config.modMacros).map((macro): RawModMacro => ({
+			...macro,
+			title: stringOr(macro.title, ''),
+			text: decodeText(stringOr(macro.text, '')),
+			distinguish: booleanOr(macro.distinguish, false),
+			ban: booleanOr(macro.ban, false),
+			mute: booleanOr(macro.mute, false),
+			remove: booleanOr(macro.remove, false),
+			appprove: booleanOr(macro.appprove, false),
+			lockthread: booleanOr(macro.lockthread, false),
+			sticky: booleanOr(macro.sticky, false),
+			archivemodmail: booleanOr(macro.archivemodmail, false),
+			highlightmodmail: booleanOr(macro.highlightmodmail, false),
+		})),
+		// An empty list means the default note types are used
+		usernoteColors: usernoteColors.length
+			? usernoteColors.map((noteType): RawUsernoteType => ({
+				...noteType,
+				key: stringOr(noteType.key, ''),
+				color: stringOr(noteType.color, ''),
+				text: stringOr(noteType.text, ''),
+			}))
+			: DEFAULT_USERNOTE_TYPES.map(noteType => ({...noteType})),
+	};
+}
+
+/** URL-encodes the text in a normalized config that the extension encodes. */
+function encodeConfig (config: RawSubredditConfig): RawSubredditConfig {
+	return {
+		...config,
+		removalReasons: {
+			...config.removalReasons,
+			header: encodeText(config.removalReasons.header),
+			footer: encodeText(config.removalReasons.footer),
+			reasons: config.removalReasons.reasons.map(reason => ({
+				...reason,
+				text: encodeText(reason.text),
+			})),
+		},
+		modMacros: config.modMacros.map(macro => ({
+			...macro,
+			text: encodeText(macro.text),
+		})),
+	};
+}
+
+/** Compares two JSON values. */
+function sameJSON (a: unknown, b: unknown) {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Works out what to write back for a value, given what it was when it was
+ * loaded (normalized and re-encoded) and what it originally was on the wiki.
+ * Anything unchanged since it was loaded is written back as it originally was,
+ * and fields which were filled in with defaults are left out again.
+ */
+function restoreOriginal (
+	current: unknown,
+	loaded: unknown,
+	original: unknown,
+): unknown {
+	if (sameJSON(current, loaded)) {
+		return original;
+	}
+	if (Array.isArray(current)) {
+		if (!Array.isArray(loaded) || !Array.isArray(original)) {
+			return current;
+		}
+		// Lists of objects are normalized without their malformed entries, so
+		// line the loaded items up with the objects of the original list. If
+		// they still don't line up, nothing can be restored safely.
+		const originalItems = loaded.length === original.length
+			? original
+			: original.filter(isObject);
+		if (loaded.length !== originalItems.length) {
+			return current;
+		}
+		return current.map((item, i) =>
+			i < originalItems.length
+				? restoreOriginal(item, loaded[i], originalItems[i])
+				: item
+		);
+	}
+	if (isObject(current) && isObject(loaded) && isObject(original)) {
+		// keep the original order of fields, then add any new ones
+		const restored: Record<string, unknown> = {};
+		const keys = [...Object.keys(original), ...Object.keys(current)];
+		for (const key of new Set(keys)) {
+			if (!(key in current)) {
+				continue;
+			}
+			if (!(key in original) && sameJSON(current[key], loaded[key])) {
+				continue;
+			}
+			restored[key] = restoreOriginal(
+				current[key],
+				loaded[key],
+				original[key],
+			);
+		}
+		return restored;
+	}
+	return current;
+}
+
+/**
+ * Converts a normalized config back into the form stored on the wiki,
+ * reversing {@linkcode normalizeConfig} so the Toolbox extension can read it.
+ * Text the extension stores URL-encoded is encoded again. If the original data
+ * the config was normalized from is given, anything that hasn't been changed
+ * since is written back exactly as it was, including sections the extension
+ * left as empty strings and fields that were filled in with defaults.
+ * {@linkcode SubredditConfig.toJSON} does this automatically.
+ * @param config The normalized config
+ * @param original The data the config was normalized from, if any
+ * @returns Data which can be serialized to JSON and written as the contents of
+ * the `toolbox` wiki page
+ */
+export function denormalizeConfig (
+	config: RawSubredditConfig,
+	original?: unknown,
+): Record<string, unknown> {
+	const encoded = encodeConfig(config);
+	if (original === undefined) {
+		return {...encoded};
+	}
+	return restoreOriginal(
+		encoded,
+		encodeConfig(normalizeConfig(original)),
+		original,
+	) as Record<string, unknown>;
+}
@@ -0,0 +1,63 @@
+import test from 'ava';
+import {getDomainTagCandidates, normalizeDomain} from './domainTags';
+
+test('normalizeDomain', t => {
+	for (
+		const [arg, expected] of Object.entries({
+			'example.com': 'example.com',
+			// Case and surrounding whitespace don't matter
+			'EXAMPLE.Com': 'example.com',
+			' example.com ': 'example.com',
+			// A leading www. and trailing dot are removed
+			'www.example.com': 'example.com',
+			'WWW.Example.com.': 'example.com',
+			'example.com.': 'example.com',
+			// Other subdomains are kept
+			'm.example.com': 'm.example.com',
+			'old.reddit.com': 'old.reddit.com',
+			'www.m.example.com': 'm.example.com',
+			'notwww.example.com': 'notwww.example.com',
+		})
+	) {
+		t.is(normalizeDomain(arg), expected, arg);
+	}
+});
+
+test('getDomainTagCandidates', t => {
+	const cases: [string, string[]][] = [
+		// Full URLs and bare hosts
+		['https://example.com/page', ['example.com']],
+		['example.com/page', ['example.com']],
+		['ftp://files.example.com', ['files.example.com', 'example.com']],
+		// Prefixes: www. is dropped, other subdomains fall back to the parent
+		['https://www.example.com/', ['example.com']],
+		['https://m.youtube.com/watch?v=abc', ['m.youtube.com', 'youtube.com']],
+		[
+			'https://old.reddit.com/r/subreddit/',
+			['old.reddit.com', 'reddit.com'],
+		],
+		// Ports and uppercase hosts
+		['https://example.com:8080/page', ['example.com']],
+		['Example.COM:443', ['example.com']],
+		['HTTPS://WWW.EXAMPLE.COM/Page', ['example.com']],
+		// Subdomain fallback, most specific first
+		[
+			'https://a.b.example.co.uk/',
+			['a.b.example.co.uk', 'b.example.co.uk', 'example.co.uk', 'co.uk'],
+		],
+		// Reddit-hosted media falls back to reddit.com
+		['https://i.redd.it/abc.png', ['i.redd.it', 'redd.it', 'reddit.com']],
+		['https://redd.it/123abc', ['redd.it', 'reddit.com']],
+		// IP addresses have no parent domains
+		['http://127.0.0.1:8080/', ['127.0.0.1']],
+		['http://[::1]/', ['[::1]']],
+		// Invalid URLs
+		['', []],
+		['https://', []],
+		['https://exa mple.com/', []],
+		['http://[not an ip]/', []],
+	];
+	for (const [arg, expected] of cases) {
+		t.deepEqual(getDomainTagCandidates(arg), expected, arg);
+	}
+});
@@ -0,0 +1,84 @@
+import {RawDomainTag} from '../types/RawSubredditConfig';
+
+/**
+ * Hosts that stand in for another domain when matching domain tags. Reddit's
+ * `redd.it` short links point at posts on reddit.com.
+ */
+const DOMAIN_ALIASES: Record<string, string> = {
+	'redd.it': 'reddit.com',
+};
+
+/**
+ * Normalizes a domain name for comparison: lowercased, without a leading
+ * `www.` or trailing dot.
+ * @param domain The domain name
+ * @returns The normalized domain name
+ */
+export function normalizeDomain (domain: string): string {
+	return domain.trim().toLowerCase().replace(/^www\.|\.$/g, '');
+}
+
+/**
+ * Lists the domains a URL could be tagged under, most specific first: the
+ * URL's host without `www.`, then each parent domain. Reddit's media and short
+ * link hosts (`i.redd.it`, `v.redd.it`, `redd.it`) fall back to `reddit.com`,
+ * so a tag on reddit.com covers everything hosted by Reddit while a tag on
+ * e.g. `i.redd.it` only covers images.
+ * @param url The URL of a link post, with or without the scheme
+ * @returns The candidate domains, or an empty list if the URL is invalid
+ */
+export function getDomainTagCandidates (url: string): string[] {
+	let host: string;
+	try {
+		// a bare host with a port, e.g. `example.com:8080`, isn't a scheme
+		const hasScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(url);
+		host = new URL(hasScheme ? url : `https://${url}`).hostname;
+	} catch (error) {
+		return [];
+	}
+
+	host = normalizeDomain(host);
+	// IP addresses don't have parent domains
+	if (/^[\d.]+$|:/.test(host)) {
+		return [host];
+	}
+	const labels = host.split('.');
+	const candidates: string[] = [];
+	for (let i = 0; i < labels.length - 1; i += 1) {
+		const domain = labels.slice(i).join('.');
+		candidates.push(domain);
+		const alias = DOMAIN_ALIASES[domain];
+		if (alias) {
+			candidates.push(alias);
+		}
+	}
+	return candidates;
+}
+
+/**
+ * Finds the domain tag that applies to a URL. A tag on a domain also applies
+ * to its subdomains, and the most specific matching tag wins. See
+ * {@linkcode getDomainTagCandidates} for how Reddit-hosted URLs are handled.
+ * @param tags The domain tags to search
+ * @param url The URL of a link post
+ * @returns The matching tag, or `undefined` if no tag applies
+ */
+export function matchDomainTag (
+	tags: RawDomainTag[],
+	url: string,
+): RawDomainTag | undefined {
+	const tagsByDomain = new Map<string, RawDomainTag>();
+	for (const tag of tags) {
+		const domain = normalizeDomain(tag.name);
+		if (!tagsByDomain.has(domain)) {
+			tagsByDomain.set(domain, tag);
+		}
+	}
+	for (const domain of getDomainTagCandidates(url)) {
+		const tag = tagsByDomain.get(domain);
+		if (tag) {
+			return tag;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,94 @@
+import test from 'ava';
+import {UsernotesImportError} from '../classes/errors';
+import {SubredditConfig} from '../classes/SubredditConfig';
+import {
+	exportRowToUsernote,
+	formatUsernotesCSV,
+	parseUsernotesCSV,
+	parseUsernotesJSONL,
+} from './export';
+
+test('formatUsernotesCSV and parseUsernotesCSV', t => {
+	const rows = [{
+		username: 'someUser',
+		timestamp: '2023-01-01T00:00:00.000Z',
+		moderator: 'someMod',
+		noteType: 'ban',
+		noteTypeLabel: 'Ban',
+		text: 'said "hi", then\nleft ',
+		permalink: 'https://www.reddit.com/comments/abc',
+	}, {
+		username: 'otherUser',
+		timestamp: '2023-01-02T00:00:00.000Z',
+		moderator: 'someMod',
+		text: 'plain',
+	}];
+
+	const csv = formatUsernotesCSV(rows);
+	t.is(
+		csv,
+		'username,timestamp,moderator,noteType,noteTypeLabel,text,permalink\n'
+			+ 'someUser,2023-01-01T00:00:00.000Z,someMod,ban,Ban,'
+			+ '"said ""hi"", then\nleft ",https://www.reddit.com/comments/abc\n'
+			+ 'otherUser,2023-01-02T00:00:00.000Z,someMod,,,plain,\n',
+	);
+	t.deepEqual(parseUsernotesCSV(csv), [rows[0], {
+		...rows[1],
+		noteType: '',
+		noteTypeLabel: '',
+		permalink: '',
+	}]);
+});
+
+test('parseUsernotesCSV: accept columns in any order', t => {
+	t.deepEqual(
+		parseUsernotesCSV('text,extra,username\r\nhello,x,someUser\r\n\r\n'),
+		[{text: 'hello', username: 'someUser'}],
+	);
+});
+
+test('parseUsernotesJSONL: reject lines that are not objects', t => {
+	t.deepEqual(parseUsernotesJSONL('{"text":"a"}\n\n{"text":"b"}\n'), [
+		{text: 'a'},
+		{text: 'b'},
+	]);
+	const error = t.throws(() => parseUsernotesJSONL('{}\n[1]\n'), {
+		instanceOf: UsernotesImportError,
+	});
+	t.is(error?.row, 2);
+});
+
+test('exportRowToUsernote', t => {
+	const config = new SubredditConfig();
+	t.deepEqual(
+		exportRowToUsernote({
+			username: 'someUser',
+			timestamp: '2023-01-01T00:00:00.000Z',
+			moderator: 'someMod',
+			noteType: '',
+			noteTypeLabel: 'Ban',
+			text: 'hi',
+			permalink: '',
+		}, 1, config),
+		{
+			username: 'someUser',
+			timestamp: new Date('2023-01-01T00:00:00.000Z'),
+			moderatorUsername: 'someMod',
+			noteType: 'ban',
+			text: 'hi',
+		},
+	);
+
+	for (
+		const row of [
+			{timestamp: '2023-01-01', moderator: 'someMod'},
+			{username: 'someUser', timestamp: 'never', moderator: 'someMod'},
+			{username: 'someUser', timestamp: 5, moderator: 'someMod'},
+		]
+	) {
+		t.throws(() => exportRowToUsernote(row, 3), {
+			instanceOf: UsernotesImportError,
+			message: /row 3/,
+		});
+	}
+});
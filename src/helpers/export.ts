@@ -0,0 +1,221 @@
+import {UsernotesImportError} from '../classes/errors';
+import {SubredditConfig} from '../classes/SubredditConfig';
+import {UsernoteExportRow} from '../types/Export';
+import {Usernote} from '../types/Usernote';
+
+/** The columns of exported usernotes, in order. */
+export const USERNOTE_EXPORT_COLUMNS: (keyof UsernoteExportRow)[] = [
+	'username',
+	'timestamp',
+	'moderator',
+	'noteType',
+	'noteTypeLabel',
+	'text',
+	'permalink',
+];
+
+/**
+ * Converts a usernote to the flat form used for exports.
+ * @param note The note to convert
+ * @param config The subreddit's config, used to look up the label of the
+ * note's type
+ * @returns The export row
+ */
+export function usernoteToExportRow (
+	note: Usernote,
+	config?: SubredditConfig,
+): UsernoteExportRow {
+	return {
+		username: note.username,
+		timestamp: note.timestamp.toISOString(),
+		moderator: note.moderatorUsername,
+		noteType: note.noteType,
+		noteTypeLabel: note.noteType == null
+			? undefined
+			: config?.getNoteType(note.noteType)?.text,
+		text: note.text,
+		permalink: note.contextPermalink,
+	};
+}
+
+/**
+ * Converts an imported row back into a usernote. If the row has a note type
+ * label but no key, the key is looked up by label in the subreddit's config.
+ * @param row The row to convert
+ * @param rowNumber The number of the row, used in error messages
+ * @param config The subreddit's config, used to look up note types by label
+ * @returns The note
+ * @throws {UsernotesImportError} if the row is missing required values
+ */
+export function exportRowToUsernote (
+	row: Partial<Record<keyof UsernoteExportRow, unknown>>,
+	rowNumber: number,
+	config?: SubredditConfig,
+): Usernote {
+	const optional = (key: keyof UsernoteExportRow) => {
+		const value = row[key];
+		if (value == null || value === '') {
+			return undefined;
+		}
+		if (typeof value !== 'string') {
+			throw new UsernotesImportError(rowNumber, `${key} is not a string`);
+		}
+		return value;
+	};
+	const required = (key: keyof UsernoteExportRow) => {
+		const value = optional(key);
+		if (value === undefined) {
+			throw new UsernotesImportError(rowNumber, `${key} is missing`);
+		}
+		return value;
+	};
+
+	const timestamp = new Date(required('timestamp'));
+	if (isNaN(+timestamp)) {
+		throw new UsernotesImportError(rowNumber, 'timestamp is not a date');
+	}
+	let noteType = optional('noteType');
+	const label = optional('noteTypeLabel');
+	if (noteType === undefined && label !== undefined && config) {
+		noteType = config.getAllNoteTypes()
+			.find(type => type.text === label)?.key;
+	}
+
+	const note: Usernote = {
+		username: required('username'),
+		timestamp,
+		moderatorUsername: required('moderator'),
+		text: optional('text') ?? '',
+	};
+	if (noteType !== undefined) {
+		note.noteType = noteType;
+	}
+	const permalink = optional('permalink');
+	if (permalink !== undefined) {
+		note.contextPermalink = permalink;
+	}
+	return note;
+}
+
+/** Quotes a CSV field if it contains anything that would need escaping. */
+function escapeCSVField (value: string) {
+	if (/[",\r\n]|^\s|\s$/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
+
+/**
+ * Formats usernote export rows as CSV, with a header row naming the columns.
+ * @param rows The rows to format
+ * @returns The CSV text
+ */
+export function formatUsernotesCSV (rows: UsernoteExportRow[]): string {
+	return [
+		USERNOTE_EXPORT_COLUMNS,
+		...rows.map(row =>
+			USERNOTE_EXPORT_COLUMNS.map(column =>
+				escapeCSVField(row[column] ?? '')
+			)
+		),
+	].map(fields => fields.join(',') + '\n').join('');
+}
+
+/**
+ * Splits CSV text into records and fields, following RFC 4180. Quoted fields
+ * may contain commas, doubled quotes, and line breaks.
+ */
+function parseCSV (csv: string): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < csv.length; i += 1) {
+		const char = csv[i];
+		if (quoted) {
+			if (char === '"' && csv[i + 1] === '"') {
+				field += '"';
+				i += 1;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			record.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && csv[i + 1] === '\n') {
+				i += 1;
+			}
+			record.push(field);
+			records.push(record);
+			record = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || record.length) {
+		record.push(field);
+		records.push(record);
+	}
+	// skip blank lines
+	return records.filter(fields => fields.length > 1 || fields[0]);
+}
+
+/**
+ * Reads usernote export rows from CSV. The first row must name the columns,
+ * which can be in any order; unknown columns are ignored.
+ * @param csv The CSV text
+ * @returns The rows, with empty cells left as empty strings
+ */
+export function parseUsernotesCSV (
+	csv: string,
+): Partial<Record<keyof UsernoteExportRow, string>>[] {
+	const [header = [], ...records] = parseCSV(csv);
+	return records.map(fields => {
+		const row: Partial<Record<keyof UsernoteExportRow, string>> = {};
+		header.forEach((column, i) => {
+			const key = column.trim() as keyof UsernoteExportRow;
+			if (USERNOTE_EXPORT_COLUMNS.includes(key)) {
+				row[key] = fields[i] ?? '';
+			}
+		});
+		return row;
+	});
+}
+
+/**
+ * Formats usernote export rows as JSON Lines, one JSON object per line.
+ * @param rows The rows to format
+ * @returns The JSONL text
+ */
+export function formatUsernotesJSONL (rows: UsernoteExportRow[]): string {
+	return rows.map(row => JSON.stringify(row) + '\n').join('');
+}
+
+/**
+ * Reads usernote export rows from JSON Lines. Blank lines are ignored.
+ * @param jsonl The JSONL text
+ * @returns The rows
+ * @throws {UsernotesImportError} if a line isn't a JSON object
+ */
+export function parseUsernotesJSONL (
+	jsonl: string,
+): Partial<Record<keyof UsernoteExportRow, unknown>>[] {
+	return jsonl.split(/\r?\n/).filter(line => line.trim()).map((line, i) => {
+		let row: unknown;
+		try {
+			row = JSON.parse(line);
+		} catch (error) {
+			throw new UsernotesImportError(i + 1, 'not valid JSON');
+		}
+		if (typeof row !== 'object' || !row || Array.isArray(row)) {
+			throw new UsernotesImportError(i + 1, 'not a JSON object');
+		}
+		return row;
+	});
+}
@@ -0,0 +1,67 @@
+import test from 'ava';
+import {Usernotes} from '../classes/Usernotes';
+import {diffUsernotes} from './history';
+
+/** Creates usernotes from a list of notes, given as [user, mod, time, text]. */
+function usernotesWith (notes: [string, string, number, string][]) {
+	const usernotes = new Usernotes();
+	for (const [username, moderatorUsername, time, text] of notes) {
+		usernotes.add({
+			username,
+			moderatorUsername,
+			text,
+			timestamp: new Date(time * 1000),
+		});
+	}
+	return usernotes;
+}
+
+test('diffUsernotes', t => {
+	const before = usernotesWith([
+		['someUser', 'someMod', 1, 'unchanged'],
+		['someUser', 'someMod', 2, 'to be edited'],
+		['otherUser', 'someMod', 3, 'to be removed'],
+	]);
+	const after = usernotesWith([
+		['someUser', 'someMod', 1, 'unchanged'],
+		['someUser', 'someMod', 2, 'edited'],
+		['newUser', 'otherMod', 4, 'added'],
+	]);
+
+	const diff = diffUsernotes(before, after);
+	t.deepEqual(diff.map(user => user.username), [
+		'newUser',
+		'otherUser',
+		'someUser',
+	]);
+	t.like(diff[0]!.added, [{text: 'added'}]);
+	t.like(diff[1]!.removed, [{text: 'to be removed'}]);
+	t.like(diff[2], {added: [], removed: []});
+	t.like(diff[2]!.modified, [{
+		before: {text: 'to be edited'},
+		after: {text: 'edited'},
+	}]);
+
+	t.deepEqual(diffUsernotes(before, before), []);
+	t.deepEqual(
+		diffUsernotes(before, after, 'OTHERUSER').map(user => user.username),
+		['otherUser'],
+	);
+});
+
+test('diffUsernotes: match notes on renamed users and repeated timestamps', t => {
+	const before = usernotesWith([
+		['someuser', 'someMod', 1, 'first'],
+		['someuser', 'someMod', 1, 'second'],
+	]);
+	const after = usernotesWith([
+		['SomeUser', 'someMod', 1, 'first'],
+		['SomeUser', 'someMod', 1, 'second'],
+		['SomeUser', 'someMod', 1, 'third'],
+	]);
+
+	const diff = diffUsernotes(before, after);
+	t.is(diff.length, 1);
+	t.like(diff[0], {username: 'SomeUser', removed: [], modified: []});
+	t.like(diff[0]!.added, [{text: 'third'}]);
+});
@@ -0,0 +1,105 @@
+import {Usernotes} from '../classes/Usernotes';
+import {UsernotesUserDiff} from '../types/History';
+import {Usernote} from '../types/Usernote';
+import {getUsernoteKey} from './usernotes';
+
+/** Groups notes that have the same identity; see {@linkcode getUsernoteKey}. */
+function groupByIdentity (notes: Iterable<Usernote>) {
+	const groups = new Map<string, Usernote[]>();
+	for (const note of notes) {
+		const key = getUsernoteKey(note);
+		let group = groups.get(key);
+		if (!group) {
+			group = [];
+			groups.set(key, group);
+		}
+		group.push(note);
+	}
+	return groups;
+}
+
+/** Checks whether two notes with the same identity have the same contents. */
+function sameContents (a: Usernote, b: Usernote) {
+	return a.text === b.text
+		&& a.noteType === b.noteType
+		&& a.contextPermalink === b.contextPermalink;
+}
+
+/**
+ * Compares two versions of a subreddit's usernotes. Notes are matched up by
+ * the user they're on, the moderator who left them, and the time they were
+ * left; matching notes with different text, note type, or link are reported as
+ * modified.
+ * @param before The older version of the notes
+ * @param after The newer version of the notes
+ * @param username If given, only changes to notes on this user are reported
+ * (case-insensitive)
+ * @returns The changes for each user whose notes changed, sorted by username
+ */
+export function diffUsernotes (
+	before: Usernotes,
+	after: Usernotes,
+	username?: string,
+): UsernotesUserDiff[] {
+	const onUser = (notes: Iterable<Usernote>) =>
+		username == null
+			? notes
+			: [...notes].filter(note =>
+				note.username.toLowerCase() === username.toLowerCase()
+			);
+	const beforeGroups = groupByIdentity(onUser(before.notes()));
+	const afterGroups = groupByIdentity(onUser(after.notes()));
+
+	const diffs = new Map<string, UsernotesUserDiff>();
+	const diffFor = (note: Usernote, isNewer: boolean) => {
+		const key = note.username.toLowerCase();
+		let diff = diffs.get(key);
+		if (!diff) {
+			diff = {
+				username: note.username,
+				added: [],
+				removed: [],
+				modified: [],
+			};
+			diffs.set(key, diff);
+		}
+		// prefer the newer spelling of the username
+		if (isNewer) {
+			diff.username = note.username;
+		}
+		return diff;
+	};
+
+	const keys = new Set([...beforeGroups.keys(), ...afterGroups.keys()]);
+	for (const key of keys) {
+		// Notes that didn't change match up with each other; whatever's left
+		// on both sides is paired up as modified notes
+		const removed = [...beforeGroups.get(key) ?? []];
+		const added: Usernote[] = [];
+		for (const afterNote of afterGroups.get(key) ?? []) {
+			const index = removed.findIndex(note =>
+				sameContents(note, afterNote)
+			);
+			if (index === -1) {
+				added.push(afterNote);
+			} else {
+				removed.splice(index, 1);
+			}
+		}
+		while (removed.length && added.length) {
+			const before = removed.shift()!;
+			const after = added.shift()!;
+			diffFor(after, true).modified.push({before, after});
+		}
+		for (const note of removed) {
+			diffFor(note, false).removed.push(note);
+		}
+		for (const note of added) {
+			diffFor(note, true).added.push(note);
+		}
+	}
+
+	return [...diffs.entries()]
+		.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+		.map(([, diff]) => diff);
+}
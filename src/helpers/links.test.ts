@@ -0,0 +1,138 @@
+import {Comment, Post} from '@devvit/public-api';
+import test from 'ava';
+import {ParsedToolboxLink} from '../types/Links';
+import {
+	expandToolboxLink,
+	parseToolboxLink,
+	squashToolboxLink,
+	toolboxLinkFromItem,
+	toolboxLinkFromThingId,
+} from './links';
+
+const submission: ParsedToolboxLink = {kind: 'submission', postId: '123abc'};
+const comment: ParsedToolboxLink = {
+	kind: 'comment',
+	postId: '123abc',
+	commentId: '456def',
+};
+const message: ParsedToolboxLink = {kind: 'message', messageId: '123abc'};
+const modmail: ParsedToolboxLink = {kind: 'modmail', conversationId: '1a2b3c'};
+
+test('parseToolboxLink', t => {
+	const cases: [string, ParsedToolboxLink][] = [
+		// Squashed links
+		['l,123abc', submission],
+		['l,123abc,456def', comment],
+		['m,123abc', message],
+		// Submissions
+		['https://www.reddit.com/r/subreddit/comments/123abc/', submission],
+		['https://np.reddit.com/r/subreddit/comments/123abc/slug', submission],
+		['https://m.reddit.com/comments/123abc?utm_source=share', submission],
+		['https://sh.reddit.com/r/subreddit/comments/123ABC/', submission],
+		['http://reddit.com/comments/123abc#top', submission],
+		['https://www.reddit.com/user/someone/comments/123abc/slug/', submission],
+		['https://www.reddit.com/gallery/123abc', submission],
+		['https://redd.it/123abc', submission],
+		['redd.it/123abc', submission],
+		['www.reddit.com/comments/123abc', submission],
+		// Comments
+		['https://www.reddit.com/r/subreddit/comments/123abc/slug/456def/', comment],
+		[
+			'https://www.reddit.com/r/subreddit/comments/123abc/comment/456def/?context=3',
+			comment,
+		],
+		['https://old.reddit.com/comments/123abc/_/456def', comment],
+		['https://www.reddit.com/u/someone/comments/123abc/slug/456def', comment],
+		// Old modmail and private messages
+		['https://www.reddit.com/message/messages/123abc', message],
+		['https://old.reddit.com/r/subreddit/message/messages/123abc/', message],
+		// New modmail
+		['https://mod.reddit.com/mail/all/1a2b3c', modmail],
+		['https://mod.reddit.com/mail/perma/1a2b3c/?foo=bar', modmail],
+		['https://www.reddit.com/mod/mail/inbox/1a2b3c', modmail],
+		// Relative permalinks
+		['/r/subreddit/comments/123abc/slug/', submission],
+		['/r/subreddit/comments/123abc/slug/456def/', comment],
+		['/comments/123abc/_/456def?context=3', comment],
+		['/message/messages/123abc', message],
+		['/mod/mail/all/1a2b3c', modmail],
+		// Share links
+		[
+			'https://www.reddit.com/r/subreddit/s/AbCdEf123',
+			{kind: 'share', subreddit: 'subreddit', shareCode: 'AbCdEf123'},
+		],
+		// Everything else
+		...[
+			'literally anything else',
+			'',
+			'https://example.com/comments/123abc',
+			'https://i.redd.it/123abc.png',
+			'https://www.reddit.com/r/subreddit/wiki/index',
+			'https://www.reddit.com/r/subreddit/comments/',
+			'https://mod.reddit.com/mail/all',
+			'/r/subreddit/wiki/index',
+			'l,',
+			'l,123abc,456def,789ghi',
+		].map((url): [string, ParsedToolboxLink] => [url, {kind: 'url', url}]),
+	];
+	for (const [arg, expected] of cases) {
+		t.deepEqual(parseToolboxLink(arg), expected, arg);
+	}
+});
+
+test('squashToolboxLink and expandToolboxLink', t => {
+	const cases: [ParsedToolboxLink, string, string][] = [
+		[submission, 'l,123abc', 'https://www.reddit.com/comments/123abc'],
+		[
+			comment,
+			'l,123abc,456def',
+			'https://www.reddit.com/comments/123abc/_/456def',
+		],
+		[message, 'm,123abc', 'https://www.reddit.com/message/messages/123abc'],
+		[
+			modmail,
+			'https://mod.reddit.com/mail/all/1a2b3c',
+			'https://mod.reddit.com/mail/all/1a2b3c',
+		],
+		[
+			{kind: 'share', subreddit: 'subreddit', shareCode: 'AbC'},
+			'https://www.reddit.com/r/subreddit/s/AbC',
+			'https://www.reddit.com/r/subreddit/s/AbC',
+		],
+		[
+			{kind: 'url', url: 'https://example.com'},
+			'https://example.com',
+			'https://example.com',
+		],
+	];
+	for (const [link, squashed, expanded] of cases) {
+		t.is(squashToolboxLink(link), squashed);
+		t.is(expandToolboxLink(link), expanded);
+		// both forms should parse back to the same link
+		t.deepEqual(parseToolboxLink(squashed), link);
+		t.deepEqual(parseToolboxLink(expanded), link);
+	}
+});
+
+test('toolboxLinkFromThingId', t => {
+	t.deepEqual(toolboxLinkFromThingId('t3_123abc'), submission);
+	t.deepEqual(toolboxLinkFromThingId('t1_456def', 't3_123abc'), comment);
+	t.deepEqual(toolboxLinkFromThingId('t1_456def', '123abc'), comment);
+	t.deepEqual(toolboxLinkFromThingId('t4_123abc'), message);
+	for (const id of ['t1_456def', 't2_123abc', '123abc']) {
+		t.throws(() => toolboxLinkFromThingId(id), {instanceOf: TypeError});
+	}
+});
+
+test('toolboxLinkFromItem', t => {
+	t.deepEqual(
+		toolboxLinkFromItem({id: 't3_123abc'} as unknown as Post),
+		submission,
+	);
+	t.deepEqual(
+		toolboxLinkFromItem(
+			{id: 't1_456def', postId: 't3_123abc'} as unknown as Comment,
+		),
+		comment,
+	);
+});
@@ -0,0 +1,208 @@
+import {Comment, Post} from '@devvit/public-api';
+import {ParsedToolboxLink} from '../types/Links';
+
+/** Matches the base 36 IDs Reddit uses for things. */
+const ID_PATTERN = /^[a-z0-9]+$/i;
+
+/** Checks that a path segment is an ID, and lowercases it if so. */
+function asId (segment: string | undefined): string | undefined {
+	return segment && ID_PATTERN.test(segment)
+		? segment.toLowerCase()
+		: undefined;
+}
+
+/**
+ * Parses the path of a link to www.reddit.com, old.reddit.com, or any other
+ * reddit.com host except mod.reddit.com.
+ */
+function parseRedditPath (segments: string[]): ParsedToolboxLink | undefined {
+	let subreddit: string | undefined;
+	if (segments[0] === 'r' && segments[1]) {
+		subreddit = segments[1];
+		segments = segments.slice(2);
+	} else if (['user', 'u'].includes(segments[0]!) && segments[1]) {
+		segments = segments.slice(2);
+	}
+
+	const [first, second, third, fourth] = segments;
+	if (first === 'comments' || first === 'gallery') {
+		const postId = asId(second);
+		// comment links are /comments/<post>/<slug>/<comment>, where the slug
+		// may be anything, including `comment` in newer links
+		const commentId = first === 'comments' ? asId(fourth) : undefined;
+		if (postId && commentId) {
+			return {kind: 'comment', postId, commentId};
+		}
+		if (postId) {
+			return {kind: 'submission', postId};
+		}
+	} else if (first === 's' && subreddit && second) {
+		return {kind: 'share', subreddit, shareCode: second};
+	} else if (first === 'message' && second === 'messages') {
+		const messageId = asId(third);
+		if (messageId) {
+			return {kind: 'message', messageId};
+		}
+	} else if (first === 'mod' && second === 'mail') {
+		const conversationId = asId(fourth);
+		if (conversationId) {
+			return {kind: 'modmail', conversationId};
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Parses a link to something on Reddit. Accepts the shortened forms used in
+ * usernotes (`l,<post>`, `l,<post>,<comment>`, and `m,<message>`) as well as
+ * full URLs in any of the shapes Reddit produces, on any reddit.com host
+ * (`www.`, `old.`, `new.`, `np.`, etc.), with or without a subreddit, slug,
+ * query string, or fragment. Paths starting with `/`, like the permalinks of
+ * Devvit posts and comments, are read as links on www.reddit.com. Short links
+ * (`redd.it/<post>`), new modmail links, and share links
+ * (`/r/<subreddit>/s/<code>`) are recognized too.
+ * @param link The link to parse
+ * @returns The parsed link. Links that aren't recognized are returned as
+ * `{kind: 'url'}` with the link unchanged.
+ */
+export function parseToolboxLink (link: string): ParsedToolboxLink {
+	let match: RegExpMatchArray | null;
+	if ((match = link.match(/^l,([a-z0-9]+)(?:,([a-z0-9]+))?$/i))) {
+		const postId = match[1]!.toLowerCase();
+		return match[2]
+			? {kind: 'comment', postId, commentId: match[2].toLowerCase()}
+			: {kind: 'submission', postId};
+	}
+	if ((match = link.match(/^m,([a-z0-9]+)$/i))) {
+		return {kind: 'message', messageId: match[1]!.toLowerCase()};
+	}
+
+	let url: URL;
+	try {
+		if (link.startsWith('/')) {
+			// relative permalinks, like those of Devvit posts and comments
+			url = new URL(link, 'https://www.reddit.com');
+		} else {
+			// allow links without a scheme, e.g. `redd.it/abc123`
+			const hasScheme = /^[a-z][a-z\d+.-]*:/i.test(link);
+			url = new URL(hasScheme ? link : `https://${link}`);
+		}
+	} catch (error) {
+		return {kind: 'url', url: link};
+	}
+	const host = url.hostname.toLowerCase();
+	const segments = url.pathname.split('/').filter(segment => segment);
+
+	let parsed: ParsedToolboxLink | undefined;
+	if (host === 'redd.it') {
+		const postId = asId(segments[0]);
+		parsed = postId ? {kind: 'submission', postId} : undefined;
+	} else if (host === 'mod.reddit.com') {
+		const conversationId = segments[0] === 'mail'
+			? asId(segments[2])
+			: undefined;
+		parsed = conversationId ? {kind: 'modmail', conversationId} : undefined;
+	} else if (host === 'reddit.com' || host.endsWith('.reddit.com')) {
+		parsed = parseRedditPath(segments);
+	}
+	return parsed ?? {kind: 'url', url: link};
+}
+
+/**
+ * Converts a parsed link to the shortest form that Toolbox understands, for
+ * storing in usernotes. Links to new modmail conversations and share links
+ * have no shortened form, so they're written as canonical URLs without any
+ * extra path segments or query strings.
+ * @param link The parsed link
+ * @returns The shortened link
+ */
+export function squashToolboxLink (link: ParsedToolboxLink): string {
+	switch (link.kind) {
+		case 'submission':
+			return `l,${link.postId}`;
+		case 'comment':
+			return `l,${link.postId},${link.commentId}`;
+		case 'message':
+			return `m,${link.messageId}`;
+		default:
+			return expandToolboxLink(link);
+	}
+}
+
+/**
+ * Converts a parsed link to a full URL.
+ * @param link The parsed link
+ * @returns The URL
+ */
+export function expandToolboxLink (link: ParsedToolboxLink): string {
+	switch (link.kind) {
+		case 'submission':
+			return `https://www.reddit.com/comments/${link.postId}`;
+		case 'comment':
+			return `https://www.reddit.com/comments/${link.postId}/_/${
+				link.commentId
+			}`;
+		case 'message':
+			return `https://www.reddit.com/message/messages/${
+				link.messageId
+			}`;
+		case 'modmail':
+			return `https://mod.reddit.com/mail/all/${link.conversationId}`;
+		case 'share':
+			return `https://www.reddit.com/r/${link.subreddit}/s/${link.shareCode}`;
+		case 'url':
+			return link.url;
+	}
+}
+
+/** Removes the type prefix from a thing ID, e.g. `t3_abc` -> `abc`. */
+function stripThingPrefix (id: string) {
+	return id.replace(/^t\d_/, '');
+}
+
+/**
+ * Builds a link from a Reddit thing ID (a fullname like `t3_abc123`).
+ * Submissions (`t3_`), comments (`t1_`), and messages (`t4_`) are supported.
+ * @param thingId The ID of the thing to link to
+ * @param postId For comments, the ID of the submission the comment is on, with
+ * or without the `t3_` prefix
+ * @returns The parsed link
+ * @throws {TypeError} if the thing can't be linked to
+ */
+export function toolboxLinkFromThingId (
+	thingId: string,
+	postId?: string,
+): ParsedToolboxLink {
+	const id = stripThingPrefix(thingId).toLowerCase();
+	if (thingId.startsWith('t3_')) {
+		return {kind: 'submission', postId: id};
+	}
+	if (thingId.startsWith('t1_')) {
+		if (!postId) {
+			throw new TypeError(
+				`Can't link to comment ${thingId} without the ID of its post`,
+			);
+		}
+		return {
+			kind: 'comment',
+			postId: stripThingPrefix(postId).toLowerCase(),
+			commentId: id,
+		};
+	}
+	if (thingId.startsWith('t4_')) {
+		return {kind: 'message', messageId: id};
+	}
+	throw new TypeError(`Can't link to thing ${thingId}`);
+}
+
+/**
+ * Builds a link to a Devvit post or comment.
+ * @param item The post or comment to link to
+ * @returns The parsed link
+ */
+export function toolboxLinkFromItem (item: Post | Comment): ParsedToolboxLink {
+	return toolboxLinkFromThingId(
+		item.id,
+		'postId' in item ? item.postId : undefined,
+	);
+}
@@ -0,0 +1,171 @@
+import {
+	Devvit,
+	FormFunction,
+	FormOnSubmitEventHandler,
+	JSONObject,
+	MenuItem,
+} from '@devvit/public-api';
+import test from 'ava';
+import {SubredditConfig} from '../classes/SubredditConfig';
+import {Usernotes} from '../classes/Usernotes';
+import {addUsernoteMenuItems} from './menuItems';
+
+/**
+ * Creates a stand-in for the `Devvit` class which records the forms and menu
+ * items added to it.
+ */
+function fakeDevvit () {
+	const fake = {
+		forms: [] as {
+			form: FormFunction;
+			onSubmit: FormOnSubmitEventHandler<JSONObject>;
+		}[],
+		menuItems: [] as MenuItem[],
+		createForm (
+			form: FormFunction,
+			onSubmit: FormOnSubmitEventHandler<JSONObject>,
+		) {
+			fake.forms.push({form, onSubmit});
+			return `form${fake.forms.length}`;
+		},
+		addMenuItem (menuItem: MenuItem) {
+			fake.menuItems.push(menuItem);
+		},
+	};
+	return fake;
+}
+
+/**
+ * Creates a stand-in for the context of a menu item or form event, with a
+ * subreddit whose config defines a single note type and whose usernotes are
+ * stored in memory.
+ */
+function fakeContext () {
+	const config = new SubredditConfig();
+	config.getAllNoteTypes().splice(0, Infinity, {
+		key: 'spam',
+		color: 'red',
+		text: 'Spammer',
+	});
+	const pages: Record<string, string> = {
+		toolbox: config.toString(),
+		usernotes: new Usernotes().toString(),
+	};
+	const fake = {
+		subredditName: 'subreddit',
+		shownForms: [] as [string, JSONObject][],
+		toasts: [] as unknown[],
+		pages,
+		ui: {
+			showForm (formKey: string, data: JSONObject) {
+				fake.shownForms.push([formKey, data]);
+			},
+			showToast (toast: unknown) {
+				fake.toasts.push(toast);
+			},
+		},
+		reddit: {
+			async getPostById (id: string) {
+				return {id, authorName: 'poster'};
+			},
+			async getCommentById (id: string) {
+				return {id, postId: 't3_post', authorName: 'commenter'};
+			},
+			async getCurrentUser () {
+				return {username: 'someMod'};
+			},
+			async getWikiPage (_subreddit: string, page: string) {
+				if (!(page in pages)) {
+					throw new Error('page not found');
+				}
+				return {content: pages[page], revisionId: 'rev'};
+			},
+			async getWikiPages () {
+				return Object.keys(pages);
+			},
+			async updateWikiPage (options: {page: string; content: string}) {
+				pages[options.page] = options.content;
+				return {content: options.content, revisionId: 'rev2'};
+			},
+		},
+	};
+	return fake;
+}
+
+test('addUsernoteMenuItems: add a note from a comment', async t => {
+	const devvit = fakeDevvit();
+	const formKey = addUsernoteMenuItems(devvit as unknown as typeof Devvit, {
+		labels: {menuItem: 'Leave a note'},
+	});
+	t.deepEqual(devvit.menuItems.map(item => item.location), [
+		'post',
+		'comment',
+		'subreddit',
+	]);
+	t.is(devvit.menuItems[1]!.label, 'Leave a note');
+
+	const context = fakeContext();
+	await devvit.menuItems[1]!.onPress(
+		{location: 'comment', targetId: 't1_comment'},
+		context as unknown as Devvit.Context,
+	);
+	const [[shownKey, data]] = context.shownForms;
+	t.is(shownKey, formKey);
+	t.deepEqual(data, {
+		username: 'commenter',
+		link: 'https://www.reddit.com/comments/post/_/comment',
+		noteTypes: [{label: 'Spammer', value: 'spam'}],
+	});
+
+	const form = devvit.forms[0]!.form(data);
+	t.like(form.fields, [
+		{name: 'username', defaultValue: 'commenter'},
+		{name: 'noteType', options: [{value: ''}, {value: 'spam'}]},
+		{name: 'text'},
+		{
+			name: 'link',
+			defaultValue: 'https://www.reddit.com/comments/post/_/comment',
+		},
+	]);
+
+	await devvit.forms[0]!.onSubmit({
+		values: {
+			username: 'commenter',
+			noteType: ['spam'],
+			text: 'Posting links',
+			link: 'https://www.reddit.com/comments/post/_/comment',
+		},
+	}, context as unknown as Devvit.Context);
+	t.deepEqual(context.toasts, [
+		{appearance: 'success', text: 'Usernote added'},
+	]);
+	const [note] = new Usernotes(context.pages.usernotes).get('commenter');
+	t.like(note, {
+		moderatorUsername: 'someMod',
+		noteType: 'spam',
+		text: 'Posting links',
+		contextPermalink: 'https://www.reddit.com/comments/post/_/comment',
+	});
+});
+
+test('addUsernoteMenuItems: show a toast on failure', async t => {
+	const devvit = fakeDevvit();
+	addUsernoteMenuItems(devvit as unknown as typeof Devvit, {
+		locations: ['subreddit'],
+	});
+	t.is(devvit.menuItems.length, 1);
+
+	const context = fakeContext();
+	await devvit.menuItems[0]!.onPress(
+		{location: 'subreddit', targetId: 't5_subreddit'},
+		context as unknown as Devvit.Context,
+	);
+	t.like(context.shownForms[0]![1], {username: '', link: ''});
+
+	await devvit.forms[0]!.onSubmit({
+		values: {username: ' ', noteType: [''], text: 'No user'},
+	}, context as unknown as Devvit.Context);
+	t.deepEqual(context.toasts, [
+		'Failed to add usernote: A user and note text are required',
+	]);
+});
@@ -0,0 +1,238 @@
+import {
+	Devvit,
+	Form,
+	FormKey,
+	MenuItemOnPressEvent,
+} from '@devvit/public-api';
+import {ToolboxClient} from '../classes/ToolboxClient';
+import {
+	UsernoteMenuItemLabels,
+	UsernoteMenuItemsOptions,
+} from '../types/MenuItems';
+import {UsernoteInit} from '../types/Usernote';
+import {expandToolboxLink, toolboxLinkFromItem} from './links';
+
+/** Default text of the "Add usernote" menu items and form. */
+export const DEFAULT_USERNOTE_MENU_ITEM_LABELS: Readonly<
+	UsernoteMenuItemLabels
+> = {
+	menuItem: 'Add usernote',
+	menuItemDescription: 'Leave a Toolbox usernote on this user',
+	formTitle: 'Add usernote',
+	username: 'User',
+	noteType: 'Note type',
+	noNoteType: 'None',
+	text: 'Note',
+	link: 'Link',
+	submit: 'Add note',
+	success: 'Usernote added',
+	failure: 'Failed to add usernote',
+};
+
+/** Data the form is shown with, worked out when a menu item is pressed. */
+interface UsernoteFormData {
+	/** The author of the item the menu item was pressed on, if any */
+	username: string;
+	/** A link to the item the menu item was pressed on, if any */
+	link: string;
+	/** The subreddit's note types, as dropdown options */
+	noteTypes: {label: string; value: string}[];
+}
+
+/** Returns the name of the subreddit an event happened in. */
+async function getSubredditName (context: Devvit.Context) {
+	return context.subredditName
+		?? (await context.reddit.getCurrentSubreddit()).name;
+}
+
+/** Returns the message of an error, for showing to the user. */
+function errorMessage (error: unknown) {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/** Builds the usernote form from the data it was shown with. */
+function buildUsernoteForm (
+	data: UsernoteFormData,
+	labels: UsernoteMenuItemLabels,
+): Form {
+	return {
+		title: labels.formTitle,
+		acceptLabel: labels.submit,
+		fields: [
+			{
+				type: 'string',
+				name: 'username',
+				label: labels.username,
+				required: true,
+				defaultValue: data.username,
+			},
+			{
+				type: 'select',
+				name: 'noteType',
+				label: labels.noteType,
+				options: [
+					{label: labels.noNoteType, value: ''},
+					...data.noteTypes,
+				],
+				defaultValue: [''],
+			},
+			{
+				type: 'paragraph',
+				name: 'text',
+				label: labels.text,
+				required: true,
+			},
+			{
+				type: 'string',
+				name: 'link',
+				label: labels.link,
+				defaultValue: data.link,
+			},
+		],
+	};
+}
+
+/**
+ * Works out what to fill the form in with when a menu item is pressed: the
+ * author of the post or comment, a link to it, and the subreddit's note types.
+ */
+async function getUsernoteFormData (
+	event: MenuItemOnPressEvent,
+	context: Devvit.Context,
+	toolbox: ToolboxClient,
+): Promise<UsernoteFormData> {
+	const subreddit = await getSubredditName(context);
+	const config = await toolbox.getConfig(subreddit);
+
+	let username = '';
+	let link = '';
+	if (event.location === 'post' || event.location === 'comment') {
+		const item = event.location === 'post'
+			? await context.reddit.getPostById(event.targetId)
+			: await context.reddit.getCommentById(event.targetId);
+		username = item.authorName;
+		link = expandToolboxLink(toolboxLinkFromItem(item));
+	}
+
+	return {
+		username,
+		link,
+		noteTypes: config.getAllNoteTypes().map(noteType => ({
+			label: noteType.text,
+			value: noteType.key,
+		})),
+	};
+}
+
+/** Converts the values submitted in the form to a usernote. */
+function usernoteFromFormValues (
+	values: Record<string, unknown>,
+	moderatorUsername: string | undefined,
+): UsernoteInit {
+	const string = (key: string) =>
+		typeof values[key] === 'string' ? (values[key] as string).trim() : '';
+	const username = string('username');
+	const text = string('text');
+	if (!username || !text) {
+		throw new TypeError('A user and note text are required');
+	}
+
+	const note: UsernoteInit = {username, text};
+	if (moderatorUsername) {
+		note.moderatorUsername = moderatorUsername;
+	}
+	const [noteType] = Array.isArray(values.noteType) ? values.noteType : [];
+	if (typeof noteType === 'string' && noteType) {
+		note.noteType = noteType;
+	}
+	if (string('link')) {
+		note.contextPermalink = string('link');
+	}
+	return note;
+}
+
+/**
+ * Adds "Add usernote" menu items to posts, comments, and the subreddit, which
+ * open a form for leaving a usernote. On posts and comments, the form is
+ * filled in with the item's author and a link to it, which is saved as the
+ * note's context. The note type dropdown lists the subreddit's note types.
+ * Toasts are shown when the note is added, or if something goes wrong. Notes
+ * are attributed to the moderator who submits the form. Call this at the top
+ * level of your app, like other `Devvit.add*` functions.
+ * @param devvit The `Devvit` class imported from `@devvit/public-api`
+ * @param options Options for the menu items and form
+ * @returns The key of the form, in case you want to show it yourself
+ *
+ * @example
+ * ```ts
+ * import {Devvit} from '@devvit/public-api';
+ * import {addUsernoteMenuItems} from 'toolbox-devvit';
+ *
+ * Devvit.configure({redditAPI: true});
+ * addUsernoteMenuItems(Devvit, {
+ * 	locations: ['post', 'comment'],
+ * 	labels: {menuItem: 'Leave a note'},
+ * });
+ *
+ * export default Devvit;
+ * ```
+ */
+export function addUsernoteMenuItems (
+	devvit: typeof Devvit,
+	options: UsernoteMenuItemsOptions = {},
+): FormKey {
+	const labels = {...DEFAULT_USERNOTE_MENU_ITEM_LABELS, ...options.labels};
+	const showFailure = (context: Devvit.Context, error: unknown) => {
+		context.ui.showToast(`${labels.failure}: ${errorMessage(error)}`);
+	};
+
+	const formKey = devvit.createForm(
+		data => buildUsernoteForm(data as UsernoteFormData, labels),
+		async ({values}, context) => {
+			try {
+				const toolbox = new ToolboxClient(
+					context.reddit,
+					options.clientOptions,
+				);
+				const subreddit = await getSubredditName(context);
+				const moderator = await context.reddit.getCurrentUser();
+				await toolbox.addUsernote(
+					subreddit,
+					usernoteFromFormValues(values, moderator?.username),
+					options.reason,
+				);
+				context.ui.showToast({
+					appearance: 'success',
+					text: labels.success,
+				});
+			} catch (error) {
+				showFailure(context, error);
+			}
+		},
+	);
+
+	for (
+		const location of options.locations ?? ['post', 'comment', 'subreddit']
+	) {
+		devvit.addMenuItem({
+			location,
+			label: labels.menuItem,
+			description: labels.menuItemDescription,
+			forUserType: 'moderator',
+			onPress: async (event, context) => {
+				try {
+					const toolbox = new ToolboxClient(
+						context.reddit,
+						options.clientOptions,
+					);
+					context.ui.showForm(formKey, {
+						...await getUsernoteFormData(event, context, toolbox),
+					});
+				} catch (error) {
+					showFailure(context, error);
+				}
+			},
+		});
+	}
+	return formKey;
+}
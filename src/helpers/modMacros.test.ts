@@ -0,0 +1,188 @@
+import type {RedditAPIClient} from '@devvit/public-api';
+import test from 'ava';
+
+import type {RawModMacro} from '../types/RawSubredditConfig';
+import {executeModMacro, planModMacro} from './modMacros';
+
+const emptyMacro: RawModMacro = {
+	title: 'Test',
+	text: '',
+	distinguish: false,
+	ban: false,
+	mute: false,
+	remove: false,
+	appprove: false,
+	lockthread: false,
+	sticky: false,
+	archivemodmail: false,
+	highlightmodmail: false,
+};
+
+const allFlags: RawModMacro = {
+	...emptyMacro,
+	text: 'Hi {author}, this {kind} in /r/{subreddit} was {status}',
+	distinguish: true,
+	ban: true,
+	mute: true,
+	remove: true,
+	lockthread: true,
+	sticky: true,
+	archivemodmail: true,
+	highlightmodmail: true,
+};
+
+const commentTarget = {
+	kind: 'comment',
+	id: 't1_abc',
+	subreddit: 'toolbox',
+	author: 'someUser',
+} as const;
+
+const modmailTarget = {
+	kind: 'modmail',
+	conversationId: 'xyz',
+	subreddit: 'toolbox',
+	author: 'someUser',
+} as const;
+
+/**
+ * Creates a stand-in Reddit API client which records the methods called on it,
+ * optionally failing some of them. Only the methods mod macros use exist.
+ */
+function fakeReddit (failing: string[] = []) {
+	const calls: string[] = [];
+	const method = (name: string, result?: unknown) =>
+		async (...args: unknown[]) => {
+			calls.push(`${name} ${JSON.stringify(args)}`);
+			if (failing.includes(name)) {
+				throw new Error(`${name} failed`);
+			}
+			return result;
+		};
+	const reddit = {
+		submitComment: method('submitComment', {
+			distinguish: method('distinguish'),
+		}),
+		remove: method('remove'),
+		approve: method('approve'),
+		getCommentById: method('getCommentById', {postId: 't3_def'}),
+		getPostById: method('getPostById', {lock: method('lock')}),
+		banUser: method('banUser'),
+		muteUser: method('muteUser'),
+		modMail: {
+			reply: method('modMail.reply'),
+			highlightConversation: method('modMail.highlightConversation'),
+			archiveConversation: method('modMail.archiveConversation'),
+		},
+	};
+	return {calls, reddit: reddit as unknown as RedditAPIClient};
+}
+
+test('planModMacro', t => {
+	t.deepEqual(planModMacro(allFlags, commentTarget), [
+		'reply',
+		'distinguish',
+		'remove',
+		'lockthread',
+		'ban',
+		'mute',
+	]);
+	t.deepEqual(planModMacro(allFlags, modmailTarget), [
+		'reply',
+		'ban',
+		'mute',
+		'highlightmodmail',
+		'archivemodmail',
+	]);
+	t.deepEqual(
+		planModMacro({...emptyMacro, appprove: true, distinguish: true}, {
+			...commentTarget,
+			kind: 'submission',
+		}),
+		['approve'],
+		'nothing is distinguished without a reply',
+	);
+});
+
+test('executeModMacro: dry run', async t => {
+	const {calls, reddit} = fakeReddit();
+	const report = await executeModMacro(reddit, allFlags, commentTarget, {
+		tokens: {status: 'removed'},
+		dryRun: true,
+	});
+
+	t.is(report.reply, 'Hi someUser, this comment in /r/toolbox was removed');
+	t.true(report.success);
+	t.true(report.actions.every(result => result.status === 'planned'));
+	t.deepEqual(calls, []);
+});
+
+test('executeModMacro: act on a comment', async t => {
+	const {calls, reddit} = fakeReddit();
+	const report = await executeModMacro(reddit, allFlags, commentTarget);
+
+	t.true(report.success);
+	t.deepEqual(calls, [
+		`submitComment [{"id":"t1_abc","text":"${report.reply}"}]`,
+		// replies to comments can't be stickied
+		'distinguish [false]',
+		'remove ["t1_abc",false]',
+		'getCommentById ["t1_abc"]',
+		'getPostById ["t3_def"]',
+		'lock []',
+		'banUser [{"subredditName":"toolbox","username":"someUser","context":"t1_abc"}]',
+		'muteUser [{"subredditName":"toolbox","username":"someUser"}]',
+	]);
+});
+
+test('executeModMacro: sticky replies on submissions', async t => {
+	const macro = {...emptyMacro, text: 'Hi', sticky: true};
+
+	const onSubmission = fakeReddit();
+	await executeModMacro(onSubmission.reddit, macro, {
+		...commentTarget,
+		kind: 'submission',
+		id: 't3_def',
+	});
+	t.deepEqual(onSubmission.calls, [
+		'submitComment [{"id":"t3_def","text":"Hi"}]',
+		'distinguish [true]',
+	]);
+
+	const onComment = fakeReddit();
+	await executeModMacro(onComment.reddit, macro, commentTarget);
+	t.deepEqual(onComment.calls, [
+		'submitComment [{"id":"t1_abc","text":"Hi"}]',
+		'distinguish [false]',
+	]);
+});
+
+test('executeModMacro: act on a modmail conversation', async t => {
+	const {calls, reddit} = fakeReddit();
+	const report = await executeModMacro(reddit, allFlags, modmailTarget);
+
+	t.true(report.success);
+	t.deepEqual(calls.map(call => call.split(' ')[0]), [
+		'modMail.reply',
+		'banUser',
+		'muteUser',
+		'modMail.highlightConversation',
+		'modMail.archiveConversation',
+	]);
+});
+
+test('executeModMacro: report partial failures', async t => {
+	const {reddit} = fakeReddit(['submitComment', 'banUser']);
+	const report = await executeModMacro(reddit, allFlags, commentTarget);
+
+	t.false(report.success);
+	t.like(report.actions, [
+		{action: 'reply', status: 'failed'},
+		{action: 'distinguish', status: 'skipped'},
+		{action: 'remove', status: 'success'},
+		{action: 'lockthread', status: 'success'},
+		{action: 'ban', status: 'failed'},
+		{action: 'mute', status: 'success'},
+	]);
+	t.is((report.actions[4]!.error as Error).message, 'banUser failed');
+});
@@ -0,0 +1,239 @@
+import {Comment, RedditAPIClient} from '@devvit/public-api';
+import {
+	ModMacroAction,
+	ModMacroActionResult,
+	ModMacroItemTarget,
+	ModMacroModmailTarget,
+	ModMacroOptions,
+	ModMacroReport,
+	ModMacroTarget,
+} from '../types/ModMacros';
+import {RawModMacro} from '../types/RawSubredditConfig';
+import {expandTokens} from './tokens';
+
+/**
+ * Lists the actions a mod macro will take on a target, in the order they're
+ * carried out. For posts and comments, the reply is posted and distinguished
+ * first, then the item is moderated, and finally the author is acted on. For
+ * modmail, the reply is sent first, then the user is acted on, and finally the
+ * conversation is highlighted and archived. Flags that don't apply to the kind
+ * of target are ignored.
+ * @param macro The macro to plan
+ * @param target The item or conversation the macro will be run on
+ * @returns The list of actions
+ */
+export function planModMacro (
+	macro: RawModMacro,
+	target: ModMacroTarget,
+): ModMacroAction[] {
+	const actions: ModMacroAction[] = [];
+	const hasReply = !!(macro.text && macro.text.trim());
+
+	if (target.kind === 'modmail') {
+		if (hasReply) {
+			actions.push('reply');
+		}
+		if (macro.ban) {
+			actions.push('ban');
+		}
+		if (macro.mute) {
+			actions.push('mute');
+		}
+		if (macro.highlightmodmail) {
+			actions.push('highlightmodmail');
+		}
+		if (macro.archivemodmail) {
+			actions.push('archivemodmail');
+		}
+		return actions;
+	}
+
+	if (hasReply) {
+		actions.push('reply');
+		// Stickying a comment requires distinguishing it. Only top-level
+		// replies on submissions can be stickied; on comments, the reply is
+		// just distinguished.
+		if (macro.distinguish || macro.sticky) {
+			actions.push('distinguish');
+		}
+	}
+	if (macro.remove) {
+		actions.push('remove');
+	} else if (macro.appprove) {
+		actions.push('approve');
+	}
+	if (macro.lockthread) {
+		actions.push('lockthread');
+	}
+	if (macro.ban) {
+		actions.push('ban');
+	}
+	if (macro.mute) {
+		actions.push('mute');
+	}
+	return actions;
+}
+
+/**
+ * Runs a mod macro on a post, comment, or modmail conversation, as the Toolbox
+ * extension's mod macros do. Actions are attempted in the order given by
+ * {@linkcode planModMacro}; a failed action doesn't stop the ones after it,
+ * except that the reply isn't distinguished if it couldn't be posted.
+ * @param reddit The Reddit API client to act with
+ * @param macro The macro to run
+ * @param target The item or conversation to run the macro on
+ * @param options Token values and whether to perform a dry run
+ * @returns Promise which resolves to a report of every action's outcome
+ *
+ * @example Run the first macro on a comment:
+ * ```ts
+ * const config = await toolbox.getConfig(subredditName);
+ * const comment = await reddit.getCommentById(commentId);
+ * const report = await executeModMacro(reddit, config.getAllModMacros()[0], {
+ * 	kind: 'comment',
+ * 	id: comment.id,
+ * 	postId: comment.postId,
+ * 	subreddit: subredditName,
+ * 	author: comment.authorName,
+ * });
+ * if (!report.success) {
+ * 	ui.showToast('Some macro actions failed');
+ * }
+ * ```
+ */
+export async function executeModMacro (
+	reddit: RedditAPIClient,
+	macro: RawModMacro,
+	target: ModMacroTarget,
+	options: ModMacroOptions = {},
+): Promise<ModMacroReport> {
+	const reply = expandTokens(macro.text || '', {
+		author: target.author,
+		subreddit: target.subreddit,
+		kind: target.kind,
+		...options.tokens,
+	});
+	const plan = planModMacro(macro, target);
+
+	if (options.dryRun) {
+		return {
+			reply,
+			actions: plan.map(action => ({action, status: 'planned'})),
+			success: true,
+		};
+	}
+
+	// The reply comment, if one is posted, so it can be distinguished
+	let replyComment: Comment | undefined;
+
+	const actions: ModMacroActionResult[] = [];
+	for (const action of plan) {
+		if (action === 'distinguish' && !replyComment) {
+			actions.push({action, status: 'skipped'});
+			continue;
+		}
+
+		try {
+			if (target.kind === 'modmail') {
+				await performModmailAction(reddit, action, target, reply);
+			} else if (action === 'reply') {
+				replyComment = await reddit.submitComment({
+					id: target.id,
+					text: reply,
+				});
+			} else if (action === 'distinguish') {
+				await replyComment!.distinguish(
+					macro.sticky && target.kind === 'submission',
+				);
+			} else {
+				await performItemAction(reddit, action, target);
+			}
+			actions.push({action, status: 'success'});
+		} catch (error) {
+			actions.push({action, status: 'failed', error});
+		}
+	}
+
+	return {
+		reply,
+		actions,
+		success: actions.every(result => result.status === 'success'),
+	};
+}
+
+/** Performs a macro action other than replying on a post or comment. */
+async function performItemAction (
+	reddit: RedditAPIClient,
+	action: ModMacroAction,
+	target: ModMacroItemTarget,
+) {
+	switch (action) {
+		case 'remove':
+			await reddit.remove(target.id, false);
+			break;
+		case 'approve':
+			await reddit.approve(target.id);
+			break;
+		case 'lockthread': {
+			// Comments don't know about their thread unless we look them up
+			let postId = target.kind === 'submission' ? target.id : target.postId;
+			if (!postId) {
+				postId = (await reddit.getCommentById(target.id)).postId;
+			}
+			await (await reddit.getPostById(postId)).lock();
+			break;
+		}
+		case 'ban':
+			await reddit.banUser({
+				subredditName: target.subreddit,
+				username: target.author,
+				context: target.id,
+			});
+			break;
+		case 'mute':
+			await reddit.muteUser({
+				subredditName: target.subreddit,
+				username: target.author,
+			});
+			break;
+		default:
+			throw new TypeError(`Can't perform ${action} on a ${target.kind}`);
+	}
+}
+
+/** Performs a macro action on a modmail conversation. */
+async function performModmailAction (
+	reddit: RedditAPIClient,
+	action: ModMacroAction,
+	target: ModMacroModmailTarget,
+	reply: string,
+) {
+	switch (action) {
+		case 'reply':
+			await reddit.modMail.reply({
+				conversationId: target.conversationId,
+				body: reply,
+			});
+			break;
+		case 'ban':
+			await reddit.banUser({
+				subredditName: target.subreddit,
+				username: target.author,
+			});
+			break;
+		case 'mute':
+			await reddit.muteUser({
+				subredditName: target.subreddit,
+				username: target.author,
+			});
+			break;
+		case 'highlightmodmail':
+			await reddit.modMail.highlightConversation(target.conversationId);
+			break;
+		case 'archivemodmail':
+			await reddit.modMail.archiveConversation(target.conversationId);
+			break;
+		default:
+			throw new TypeError(`Can't perform ${action} on modmail`);
+	}
+}
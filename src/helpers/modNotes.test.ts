@@ -0,0 +1,118 @@
+import {ModNote} from '@devvit/public-api';
+import test from 'ava';
+import {Usernote} from '../types/Usernote';
+import {
+	findModNotesToSync,
+	findUsernotesToSync,
+	modNoteToUsernote,
+	usernoteToModNote,
+} from './modNotes';
+
+/** Creates a native mod note record with the given note details. */
+function modNote (
+	username: string,
+	userNote: ModNote['userNote'],
+	type: ModNote['type'] = 'NOTE',
+): ModNote {
+	return {
+		id: 'ModNote_1',
+		operator: {name: 'someMod'},
+		user: {name: username},
+		subreddit: {name: 'subreddit'},
+		type,
+		createdAt: new Date(1000),
+		userNote,
+	} as ModNote;
+}
+
+test('modNoteToUsernote', t => {
+	t.deepEqual(
+		modNoteToUsernote(modNote('someUser', {
+			note: 'spam',
+			label: 'SPAM_WATCH',
+			redditId: 't3_abc',
+		})),
+		{
+			username: 'someUser',
+			text: 'spam',
+			timestamp: new Date(1000),
+			moderatorUsername: 'someMod',
+			noteType: 'spamwatch',
+			contextPermalink: 'https://www.reddit.com/comments/abc',
+		},
+	);
+	const helpful = modNote('someUser', {note: 'nice', label: 'HELPFUL_USER'});
+	t.like(
+		modNoteToUsernote(helpful, {noteTypes: {HELPFUL_USER: 'helpful'}}),
+		{noteType: 'helpful'},
+	);
+	t.is(modNoteToUsernote(modNote('someUser', undefined, 'BAN')), undefined);
+});
+
+test('usernoteToModNote', t => {
+	const note: Usernote = {
+		username: 'someUser',
+		text: 'x'.repeat(300),
+		timestamp: new Date(1000),
+		moderatorUsername: 'someMod',
+		noteType: 'gooduser',
+		contextPermalink: 'https://www.reddit.com/comments/abc/_/def',
+	};
+
+	const converted = usernoteToModNote(note, 'subreddit');
+	t.like(converted, {
+		subreddit: 'subreddit',
+		user: 'someUser',
+		label: 'HELPFUL_USER',
+		redditId: 't1_def',
+	});
+	t.is(converted.note.length, 250);
+
+	t.like(
+		usernoteToModNote({...note, noteType: 'custom'}, 'subreddit', {
+			labels: {custom: 'ABUSE_WARNING'},
+		}),
+		{label: 'ABUSE_WARNING'},
+	);
+	t.is(
+		usernoteToModNote({...note, noteType: 'custom'}, 'subreddit').label,
+		undefined,
+	);
+	for (const noteType of ['constructor', 'toString', '__proto__']) {
+		const inherited = {...note, noteType};
+		t.is(usernoteToModNote(inherited, 'subreddit').label, undefined);
+		t.is(
+			usernoteToModNote(inherited, 'subreddit', {labels: {}}).label,
+			undefined,
+		);
+	}
+});
+
+test('findModNotesToSync and findUsernotesToSync: skip notes already synced', t => {
+	const usernotes: Usernote[] = [{
+		username: 'someUser',
+		text: 'already in both',
+		timestamp: new Date(2000),
+		moderatorUsername: 'otherMod',
+	}, {
+		username: 'someUser',
+		text: 'only a usernote',
+		timestamp: new Date(3000),
+		moderatorUsername: 'otherMod',
+	}];
+	const modNotes = [
+		modNote('SomeUser', {note: 'already in both'}),
+		modNote('someUser', {note: 'only a mod note'}),
+		modNote('someUser', {note: 'only a mod note'}),
+		modNote('someUser', undefined, 'REMOVAL'),
+	];
+
+	t.like(findModNotesToSync(modNotes, usernotes), [
+		{text: 'only a mod note'},
+	]);
+	t.deepEqual(findUsernotesToSync(usernotes, modNotes, 'subreddit'), [{
+		subreddit: 'subreddit',
+		user: 'someUser',
+		note: 'only a usernote',
+	}]);
+});
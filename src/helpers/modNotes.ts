@@ -0,0 +1,222 @@
+import {CreateModNoteOptions, ModNote, UserNoteLabel} from '@devvit/public-api';
+import {ModNoteConversionOptions} from '../types/ModNotes';
+import {Usernote, UsernoteInit} from '../types/Usernote';
+import {
+	expandToolboxLink,
+	parseToolboxLink,
+	toolboxLinkFromThingId,
+} from './links';
+
+// type imports for doc references
+import type {DEFAULT_USERNOTE_TYPES} from './config';
+
+/**
+ * The {@linkcode DEFAULT_USERNOTE_TYPES} key closest to each of Reddit's native
+ * mod note labels. When converting the other way, the first label listed for a
+ * key is used.
+ */
+export const DEFAULT_MOD_NOTE_LABEL_MAPPING: Readonly<
+	Record<UserNoteLabel, string>
+> = {
+	BOT_BAN: 'botban',
+	PERMA_BAN: 'permban',
+	BAN: 'ban',
+	ABUSE_WARNING: 'abusewarn',
+	SPAM_WARNING: 'spamwarn',
+	SPAM_WATCH: 'spamwatch',
+	HELPFUL_USER: 'gooduser',
+	SOLID_CONTRIBUTOR: 'gooduser',
+};
+
+/** The maximum length of the text of a native mod note. */
+export const MOD_NOTE_MAX_LENGTH = 250;
+
+/** Shortens usernote text to fit in a native mod note. */
+function truncateForModNote (text: string) {
+	return text.length > MOD_NOTE_MAX_LENGTH
+		? `${text.slice(0, MOD_NOTE_MAX_LENGTH - 1)}…`
+		: text;
+}
+
+/**
+ * Gets a key identifying the contents of a note, used to tell whether a note
+ * already exists in the other system. Notes synced from one system to the
+ * other get new timestamps and moderators, so only the user and text are
+ * compared.
+ */
+function syncKey (username: string, text: string) {
+	return `${username.toLowerCase()}\n${truncateForModNote(text).trim()}`;
+}
+
+/**
+ * Gets the user and text of a native mod note record, if it's a note left by a
+ * moderator rather than a logged action.
+ */
+function getModNoteContents (modNote: ModNote) {
+	const username = modNote.user.name;
+	const text = modNote.userNote?.note;
+	if (modNote.type !== 'NOTE' || !username || !text) {
+		return undefined;
+	}
+	return {username, text};
+}
+
+/**
+ * Converts a native mod note to a usernote. Only notes left by moderators are
+ * converted; other kinds of mod note records, such as logged bans or
+ * removals, are skipped.
+ * @param modNote The mod note to convert
+ * @param options Options for mapping native labels to note types
+ * @returns The usernote, or `undefined` if the record isn't a note
+ */
+export function modNoteToUsernote (
+	modNote: ModNote,
+	options: ModNoteConversionOptions = {},
+): UsernoteInit | undefined {
+	const contents = getModNoteContents(modNote);
+	if (!contents) {
+		return undefined;
+	}
+	const {label, redditId} = modNote.userNote!;
+
+	const usernote: UsernoteInit = {
+		...contents,
+		timestamp: modNote.createdAt,
+		moderatorUsername: modNote.operator.name,
+	};
+	if (label) {
+		usernote.noteType = {
+			...DEFAULT_MOD_NOTE_LABEL_MAPPING,
+			...options.noteTypes,
+		}[label];
+	}
+	// Comment links need the ID of the post too, which we don't have
+	if (redditId?.startsWith('t3_')) {
+		usernote.contextPermalink = expandToolboxLink(
+			toolboxLinkFromThingId(redditId),
+		);
+	}
+	return usernote;
+}
+
+/**
+ * Converts a usernote to the options for creating an equivalent native mod
+ * note with `reddit.addModNote()`. Text longer than Reddit allows is
+ * shortened.
+ * @param note The usernote to convert
+ * @param subreddit The name of the subreddit the note is in
+ * @param options Options for mapping note types to native labels
+ * @returns Options for creating the mod note
+ */
+export function usernoteToModNote (
+	note: Usernote,
+	subreddit: string,
+	options: ModNoteConversionOptions = {},
+): CreateModNoteOptions {
+	const modNote: CreateModNoteOptions = {
+		subreddit,
+		user: note.username,
+		note: truncateForModNote(note.text),
+	};
+
+	if (note.noteType != null) {
+		// a map, so note type keys like `constructor` don't find anything
+		// inherited from Object.prototype
+		const labels = new Map(Object.entries(options.labels ?? {}));
+		if (!options.labels) {
+			const noteTypes = {
+				...DEFAULT_MOD_NOTE_LABEL_MAPPING,
+				...options.noteTypes,
+			};
+			for (const [label, key] of Object.entries(noteTypes)) {
+				if (key != null && !labels.has(key)) {
+					labels.set(key, label as UserNoteLabel);
+				}
+			}
+		}
+		const label = labels.get(note.noteType);
+		if (label) {
+			modNote.label = label;
+		}
+	}
+
+	if (note.contextPermalink) {
+		const link = parseToolboxLink(note.contextPermalink);
+		if (link.kind === 'comment') {
+			modNote.redditId = `t1_${link.commentId}`;
+		} else if (link.kind === 'submission') {
+			modNote.redditId = `t3_${link.postId}`;
+		}
+	}
+	return modNote;
+}
+
+/**
+ * Finds the native mod notes that don't have a matching usernote yet and
+ * converts them to usernotes. A mod note matches a usernote if it's on the
+ * same user and has the same text.
+ * @param modNotes The mod notes to sync
+ * @param usernotes The existing usernotes
+ * @param options Options for mapping native labels to note types
+ * @returns The usernotes to add
+ */
+export function findModNotesToSync (
+	modNotes: Iterable<ModNote>,
+	usernotes: Iterable<Usernote>,
+	options: ModNoteConversionOptions = {},
+): UsernoteInit[] {
+	const existing = new Set<string>();
+	for (const note of usernotes) {
+		existing.add(syncKey(note.username, note.text));
+	}
+
+	const toAdd: UsernoteInit[] = [];
+	for (const modNote of modNotes) {
+		const usernote = modNoteToUsernote(modNote, options);
+		if (!usernote) {
+			continue;
+		}
+		const key = syncKey(usernote.username, usernote.text);
+		if (!existing.has(key)) {
+			existing.add(key);
+			toAdd.push(usernote);
+		}
+	}
+	return toAdd;
+}
+
+/**
+ * Finds the usernotes that don't have a matching native mod note yet and
+ * converts them to options for creating mod notes. A usernote matches a mod
+ * note if it's on the same user and has the same text (after shortening it to
+ * fit in a mod note).
+ * @param usernotes The usernotes to sync
+ * @param modNotes The existing mod notes
+ * @param subreddit The name of the subreddit the notes are in
+ * @param options Options for mapping note types to native labels
+ * @returns Options for each mod note to create
+ */
+export function findUsernotesToSync (
+	usernotes: Iterable<Usernote>,
+	modNotes: Iterable<ModNote>,
+	subreddit: string,
+	options: ModNoteConversionOptions = {},
+): CreateModNoteOptions[] {
+	const existing = new Set<string>();
+	for (const modNote of modNotes) {
+		const contents = getModNoteContents(modNote);
+		if (contents) {
+			existing.add(syncKey(contents.username, contents.text));
+		}
+	}
+
+	const toCreate: CreateModNoteOptions[] = [];
+	for (const note of usernotes) {
+		const key = syncKey(note.username, note.text);
+		if (!existing.has(key)) {
+			existing.add(key);
+			toCreate.push(usernoteToModNote(note, subreddit, options));
+		}
+	}
+	return toCreate;
+}
@@ -0,0 +1,92 @@
+import test from 'ava';
+
+import type {RawSubredditConfig} from '../types/RawSubredditConfig';
+import {DEFAULT_REMOVAL_REASONS_SETTINGS} from './config';
+import {
+	renderRemovalMessage,
+	resolveRemovalDeliveryOptions,
+} from './removalReasons';
+
+const reason = {
+	title: 'Rule 1',
+	text: 'Your {kind} "{title}" broke rule 1.',
+	flairText: '',
+	flairCSS: '',
+	removePosts: true,
+	removeComments: false,
+};
+
+const settings: RawSubredditConfig['removalReasons'] = {
+	...DEFAULT_REMOVAL_REASONS_SETTINGS,
+	header: 'Hi /u/{author},',
+	footer: 'Questions? Message the mods of /r/{subreddit}.',
+	typeReply: 'both',
+	typeLockThread: true,
+	reasons: [reason],
+};
+
+test('renderRemovalMessage', t => {
+	const message = renderRemovalMessage(settings, {
+		reasons: [reason, {...reason, text: 'Also {url}'}],
+		tokens: {
+			author: 'someUser',
+			subreddit: 'toolbox',
+			kind: 'submission',
+			title: 'A post',
+			url: 'https://example.com',
+		},
+	});
+
+	t.is(message.subject, 'Your submission was removed from /r/toolbox');
+	t.is(
+		message.body,
+		[
+			'Hi /u/someUser,',
+			'Your submission "A post" broke rule 1.',
+			'Also https://example.com',
+			'Questions? Message the mods of /r/toolbox.',
+		].join('\n\n'),
+	);
+	t.like(message.delivery, {typeReply: 'both', typeLockThread: true});
+});
+
+test('renderRemovalMessage: skip blank header and footer', t => {
+	const message = renderRemovalMessage({...settings, header: '', footer: ' '}, {
+		reasons: [reason],
+		tokens: {kind: 'submission', title: 'A post'},
+	});
+	t.is(message.body, 'Your submission "A post" broke rule 1.');
+});
+
+test('resolveRemovalDeliveryOptions', t => {
+	const overrides = {typeReply: 'pm', typeLockThread: false} as const;
+	const personalDefaults = {typeStickied: true};
+
+	t.like(
+		resolveRemovalDeliveryOptions(
+			{...settings, removalOption: 'force'},
+			overrides,
+			personalDefaults,
+		),
+		{typeReply: 'both', typeLockThread: true, typeStickied: false},
+		'forced settings ignore overrides',
+	);
+	t.like(
+		resolveRemovalDeliveryOptions(
+			{...settings, removalOption: 'suggest'},
+			overrides,
+			personalDefaults,
+		),
+		{typeReply: 'pm', typeLockThread: false, typeStickied: false},
+		'suggested settings can be overridden',
+	);
+	t.like(
+		resolveRemovalDeliveryOptions(
+			{...settings, removalOption: 'leave'},
+			{},
+			personalDefaults,
+		),
+		{typeReply: 'reply', typeLockThread: false, typeStickied: true},
+		'left settings use personal defaults instead of the subreddit settings',
+	);
+});
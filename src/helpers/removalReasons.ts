@@ -0,0 +1,112 @@
+import {RawSubredditConfig} from '../types/RawSubredditConfig';
+import {
+	RemovalDeliveryOptions,
+	RemovalMessageOptions,
+	RenderedRemovalMessage,
+} from '../types/RemovalReasons';
+import {DEFAULT_REMOVAL_REASONS_SETTINGS} from './config';
+import {expandTokens} from './tokens';
+
+// type imports for doc references
+import type {SubredditConfig} from '../classes/SubredditConfig';
+
+/**
+ * Picks the delivery options out of a removal reasons settings object.
+ * @param settings The object to pick options from
+ */
+function pickDeliveryOptions (
+	settings: RemovalDeliveryOptions,
+): RemovalDeliveryOptions {
+	return {
+		typeReply: settings.typeReply,
+		typeStickied: settings.typeStickied,
+		typeCommentAsSubreddit: settings.typeCommentAsSubreddit,
+		typeLockThread: settings.typeLockThread,
+		typeLockComment: settings.typeLockComment,
+		typeAsSub: settings.typeAsSub,
+		autoArchive: settings.autoArchive,
+	};
+}
+
+/**
+ * Determines how a removal message should be delivered, following the
+ * subreddit's `removalOption` enforcement mode:
+ * - `force` - the subreddit's settings are always used
+ * - `suggest` - the subreddit's settings are used unless overridden
+ * - `leave` - the moderator's personal defaults are used unless overridden
+ * @param settings The subreddit's removal reason settings
+ * @param overrides Options chosen by the moderator for this removal
+ * @param personalDefaults The moderator's own default options
+ * @returns The options to deliver the message with
+ */
+export function resolveRemovalDeliveryOptions (
+	settings: RawSubredditConfig['removalReasons'],
+	overrides: Partial<RemovalDeliveryOptions> = {},
+	personalDefaults: Partial<RemovalDeliveryOptions> = {},
+): RemovalDeliveryOptions {
+	switch (settings.removalOption) {
+		case 'force':
+			return pickDeliveryOptions(settings);
+		case 'leave':
+			return pickDeliveryOptions({
+				...DEFAULT_REMOVAL_REASONS_SETTINGS,
+				...personalDefaults,
+				...overrides,
+			});
+		case 'suggest':
+		default:
+			return pickDeliveryOptions({...settings, ...overrides});
+	}
+}
+
+/**
+ * Builds the removal message sent to a user from the subreddit's header and
+ * footer and the selected removal reasons, expanding tokens throughout.
+ * @param settings The subreddit's removal reason settings, from
+ * {@linkcode SubredditConfig.getRemovalReasonSettings}
+ * @param options The selected reasons, token values, and delivery choices
+ * @returns The message subject, text, and delivery options
+ *
+ * @example Render a removal message for a submission:
+ * ```ts
+ * const config = await toolbox.getConfig(subreddit);
+ * const {posts} = config.getRemovalReasons();
+ * const message = renderRemovalMessage(config.getRemovalReasonSettings(), {
+ * 	reasons: [posts[0]],
+ * 	tokens: {
+ * 		author: post.authorName,
+ * 		subreddit,
+ * 		kind: 'submission',
+ * 		title: post.title,
+ * 		url: post.url,
+ * 	},
+ * });
+ * ```
+ */
+export function renderRemovalMessage (
+	settings: RawSubredditConfig['removalReasons'],
+	options: RemovalMessageOptions,
+): RenderedRemovalMessage {
+	// Blank sections are skipped so they don't leave extra gaps
+	const body = [
+		settings.header,
+		...options.reasons.map(reason => reason.text),
+		settings.footer,
+	]
+		.filter(section => section && section.trim())
+		.map(section => expandTokens(section, options.tokens))
+		.join('\n\n');
+
+	return {
+		subject: expandTokens(
+			settings.pmsubject || DEFAULT_REMOVAL_REASONS_SETTINGS.pmsubject,
+			options.tokens,
+		),
+		body,
+		delivery: resolveRemovalDeliveryOptions(
+			settings,
+			options.overrides,
+			options.personalDefaults,
+		),
+	};
+}
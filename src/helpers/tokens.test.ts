@@ -0,0 +1,33 @@
+import test from 'ava';
+
+import {expandTokens} from './tokens';
+
+test('expandTokens', t => {
+	t.is(
+		expandTokens('Hi /u/{author}, your {kind} in /r/{subreddit}', {
+			author: 'someUser',
+			kind: 'comment',
+			subreddit: 'toolbox',
+		}),
+		'Hi /u/someUser, your comment in /r/toolbox',
+	);
+	t.is(
+		expandTokens('{author} {author} {unknown} {}', {author: 'a'}),
+		'a a {unknown} {}',
+		'repeated tokens are all replaced and unknown tokens are left alone',
+	);
+	t.is(
+		expandTokens('{title}', {title: 'uses $& and {author}', author: 'x'}),
+		'uses $& and {author}',
+		'token values are inserted literally and not expanded again',
+	);
+});
+
+test('expandTokens: ignore inherited properties', t => {
+	t.is(
+		expandTokens('{constructor} {toString} {__proto__} {author}', {
+			author: 'someUser',
+		}),
+		'{constructor} {toString} {__proto__} someUser',
+	);
+});
@@ -0,0 +1,21 @@
+import {ToolboxTokens} from '../types/Tokens';
+
+/**
+ * Replaces tokens like `{author}` in a Toolbox template with their values.
+ * Tokens which don't have a value are left in the text unchanged, which is also
+ * how the Toolbox extension handles them.
+ * @param template The text containing tokens
+ * @param tokens The values to substitute for each token
+ * @returns The text with known tokens replaced
+ */
+export function expandTokens (template: string, tokens: ToolboxTokens): string {
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+		// only the token object's own values count, not things like
+		// `{constructor}` inherited from Object.prototype
+		if (!Object.prototype.hasOwnProperty.call(tokens, name)) {
+			return match;
+		}
+		const value: unknown = tokens[name];
+		return typeof value === 'string' ? value : match;
+	});
+}
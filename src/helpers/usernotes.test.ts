@@ -1,9 +1,12 @@
 import test from 'ava';
 
 import {
+	compressBlob,
 	expandPermalink,
+	getUsernoteKey,
 	migrateUsernotesToLatestSchema,
 	squashPermalink,
+	validateUsernotes,
 } from './usernotes';
 
 test('squashPermalink', t => {
@@ -74,9 +77,18 @@ test('squashPermalink', t => {
 			'https://old.reddit.com/message/messages/123abc': 'm,123abc',
 			'https://old.reddit.com/message/messages/123abc/?trailing#garbage':
 				'm,123abc',
-			// Everything else is passed through as-is, including new modmail
+			// Relative permalinks, as Devvit gives them
+			'/r/subreddit/comments/123abc/some_link_slug/456def/':
+				'l,123abc,456def',
+			'/r/subreddit/comments/123abc/some_link_slug/': 'l,123abc',
+			// New modmail links have no short form, but are made canonical
 			'https://mod.reddit.com/mail/all/123abc':
 				'https://mod.reddit.com/mail/all/123abc',
+			'https://mod.reddit.com/mail/inbox/123abc':
+				'https://mod.reddit.com/mail/all/123abc',
+			'https://www.reddit.com/mod/mail/perma/123abc?x=1':
+				'https://mod.reddit.com/mail/all/123abc',
+			// Everything else is passed through as-is
 			'literally anything else': 'literally anything else',
 		})
 	) {
@@ -105,8 +117,130 @@ test('expandPermalink', t => {
 	}
 });
 
+test('getUsernoteKey', t => {
+	const key = getUsernoteKey({
+		username: 'SomeUser',
+		moderatorUsername: 'SomeMod',
+		timestamp: new Date(1000),
+	});
+	// same user and moderator in any case, and the same second after rounding
+	t.is(getUsernoteKey({
+		username: 'someuser',
+		moderatorUsername: 'somemod',
+		timestamp: new Date(1499),
+	}), key);
+	t.is(getUsernoteKey({
+		username: 'SomeUser',
+		moderatorUsername: 'SomeMod',
+		timestamp: new Date(500),
+	}), key);
+	// anything else is a different note
+	t.not(getUsernoteKey({
+		username: 'SomeUser',
+		moderatorUsername: 'SomeMod',
+		timestamp: new Date(1500),
+	}), key);
+	t.not(getUsernoteKey({
+		username: 'OtherUser',
+		moderatorUsername: 'SomeMod',
+		timestamp: new Date(1000),
+	}), key);
+	t.not(getUsernoteKey({
+		username: 'SomeUser',
+		moderatorUsername: 'OtherMod',
+		timestamp: new Date(1000),
+	}), key);
+});
+
 test.todo('compressBlob');
 
 test.todo('decompressBlob');
 
 test.todo('migrateUsernotesSchema');
+
+test('validateUsernotes: valid data has no diagnostics', t => {
+	t.deepEqual(
+		validateUsernotes({
+			ver: 6,
+			constants: {users: ['someMod'], warnings: ['ban']},
+			blob: compressBlob({
+				someUser: {ns: [{t: 1, n: 'hi', m: 0, w: 0, l: 'l,abc'}]},
+			}),
+		}),
+		[],
+	);
+});
+
+test('validateUsernotes: page-level problems', t => {
+	t.like(validateUsernotes('nope'), [{path: '', severity: 'error'}]);
+	t.like(validateUsernotes({ver: 99}), [{path: 'ver', severity: 'error'}]);
+	t.like(validateUsernotes({ver: 6, constants: {users: []}, blob: 5}), [
+		{path: 'constants.warnings', severity: 'error'},
+		{path: 'blob', severity: 'error'},
+	]);
+	t.deepEqual(
+		validateUsernotes({
+			ver: 6,
+			constants: {users: [], warnings: []},
+			blob: 'definitely not zlib',
+		}),
+		[{path: 'blob', issue: 'blob is corrupt', severity: 'error'}],
+	);
+});
+
+test('validateUsernotes: note-level problems', t => {
+	const diagnostics = validateUsernotes({
+		ver: 6,
+		constants: {users: ['someMod', null], warnings: ['ban']},
+		blob: compressBlob({
+			noNotes: {},
+			someUser: {
+				ns: [
+					{t: 1, n: 'bad mod', m: 1},
+					{t: 'yesterday', n: 'bad time', m: 0},
+					{t: 1, n: 'bad type and link', m: 0, w: 3, l: 5},
+					'not a note',
+				],
+			},
+		}),
+	});
+
+	t.deepEqual(diagnostics.map(({path, severity}) => [path, severity]), [
+		['blob.noNotes.ns', 'error'],
+		['blob.someUser.ns[0].m', 'error'],
+		['blob.someUser.ns[1].t', 'error'],
+		['blob.someUser.ns[2].w', 'warning'],
+		['blob.someUser.ns[2].l', 'warning'],
+		['blob.someUser.ns[3]', 'error'],
+	]);
+});
+
+test('validateUsernotes: leave old schemas unchanged', t => {
+	const page = {
+		ver: 4,
+		constants: {users: ['someMod'], warnings: ['ban']},
+		users: {someUser: {ns: [{t: 1000, n: 'hi', m: 0, w: 0}]}},
+	};
+	const copy = JSON.parse(JSON.stringify(page));
+	t.deepEqual(validateUsernotes(page), []);
+	t.deepEqual(page, copy);
+});
+
+test('validateUsernotes: malformed old schemas', t => {
+	const constants = {users: ['someMod'], warnings: []};
+	t.deepEqual(validateUsernotes({ver: 5, constants}), [
+		{path: 'users', issue: 'missing or not an object', severity: 'error'},
+	]);
+	const diagnostics = validateUsernotes({
+		ver: 4,
+		constants,
+		users: {
+			noNotes: {},
+			someUser: {ns: [{t: 1000, n: 'fine', m: 0}, null]},
+		},
+	});
+	t.deepEqual(diagnostics.map(({path, severity}) => [path, severity]), [
+		['users.noNotes.ns', 'error'],
+		['users.someUser.ns[1]', 'error'],
+	]);
+});
@@ -1,9 +1,22 @@
 import pako from 'pako';
+import {
+	CorruptUsernotesError,
+	UnsupportedSchemaVersionError,
+} from '../classes/errors';
 import {
 	RawUsernotes,
 	RawUsernotesBlob,
+	RawUsernotesConstants,
+	RawUsernotesNote,
 	RawUsernotesUsers,
+	UsernotesDiagnostic,
 } from '../types/RawUsernotes';
+import {UsernoteIdentifier} from '../types/Usernote';
+import {
+	expandToolboxLink,
+	parseToolboxLink,
+	squashToolboxLink,
+} from './links';
 
 /**
  * The latest usernotes schema version that this library can handle. If a
@@ -19,37 +32,25 @@ export const LATEST_KNOWN_USERNOTES_SCHEMA = 6;
  */
 export const EARLIEST_KNOWN_USERNOTES_SCHEMA = 4;
 
+/**
+ * The maximum size, in bytes, of the contents of a Reddit wiki page. Saving a
+ * page larger than this fails.
+ */
+export const WIKI_PAGE_SIZE_LIMIT = 512 * 1024;
+
 /**
  * Attempts to shorten a link into the Toolbox permalink format for usernotes.
  * This format is described here:
  * {@link https://github.com/toolbox-team/reddit-moderator-toolbox/wiki/Subreddit-Wikis%3A-usernotes#link-string-formats}
+ * Links to new modmail conversations and share links have no shortened form,
+ * and are written as canonical URLs instead. See {@linkcode parseToolboxLink}
+ * for the links that are recognized.
  * @param permalink The link to shorten
  * @returns A shortened link string, or the original URL if the link
- * doesn't match any shortening format known to Toolbox.
+ * doesn't match any format known to Toolbox.
  */
 export function squashPermalink (permalink: string): string {
-	let match: RegExpMatchArray | null;
-	if (
-		(match = permalink.match(
-			/(?:\/comments|^https?:\/\/redd\.it)\/([a-z0-9]+)(?:\/[^/]*(?:\/([a-z0-9]+)?)?)?/,
-		))
-	) {
-		// Submission pages
-		let squashed = `l,${match[1]}`;
-		if (match[2]) {
-			// Add context for specific comments
-			squashed += `,${match[2]}`;
-		}
-		return squashed;
-	} else if ((match = permalink.match(/\/messages\/(\w+)/))) {
-		// Old modmail pages
-		return `m,${match[1]}`;
-	} else if (permalink.startsWith('https://mod.reddit.com')) {
-		// New modmail pages
-		return permalink;
-	}
-	// If nothing else, return the original permalink
-	return permalink;
+	return squashToolboxLink(parseToolboxLink(permalink));
 }
 
 /**
@@ -60,16 +61,25 @@ export function squashPermalink (permalink: string): string {
  * @returns The expanded, full permalink
  */
 export function expandPermalink (shortenedLink: string): string {
-	if (shortenedLink.startsWith('l,')) {
-		// Expand to a submission or comment permalink
-		return `https://www.reddit.com/comments/${
-			shortenedLink.substr(2).split(',').join('/_/')
-		}`;
-	} else if (shortenedLink.startsWith('m,')) {
-		// Expand to a message permalink
-		return `https://www.reddit.com/message/messages/${shortenedLink.substr(2)}`;
-	}
-	return shortenedLink;
+	// Full links are left alone, even if they could be written more neatly
+	if (!/^[lm],/.test(shortenedLink)) {
+		return shortenedLink;
+	}
+	return expandToolboxLink(parseToolboxLink(shortenedLink));
+}
+
+/**
+ * Gets a key identifying a usernote, for telling whether two notes are the same
+ * note. See {@linkcode UsernoteIdentifier} for what identifies a note.
+ * @param note The note or identifier to get the key of
+ * @returns A string which is equal for two notes if they're the same note
+ */
+export function getUsernoteKey (note: UsernoteIdentifier): string {
+	return [
+		note.username.toLowerCase(),
+		note.moderatorUsername.toLowerCase(),
+		Math.round(+note.timestamp / 1000),
+	].join('\n');
 }
 
 /**
@@ -89,13 +99,21 @@ export function compressBlob<T> (value: T): RawUsernotesBlob<T> {
  * {@link https://github.com/toolbox-team/reddit-moderator-toolbox/wiki/Subreddit-Wikis:-usernotes#working-with-the-blob}
  * @param blob The blob to decompress
  * @returns The original JSON value.
+ * @throws {CorruptUsernotesError} if the blob can't be decompressed
  */
 export function decompressBlob<T> (blob: RawUsernotesBlob<T>): T {
-	return JSON.parse(
-		pako.inflate(Buffer.from(blob, 'base64').toString('binary'), {
-			to: 'string',
-		}),
-	);
+	try {
+		return JSON.parse(
+			pako.inflate(Buffer.from(blob, 'base64').toString('binary'), {
+				to: 'string',
+			}),
+		);
+	} catch (error) {
+		throw new CorruptUsernotesError(
+			{path: 'blob', issue: 'blob is corrupt', severity: 'error'},
+			error,
+		);
+	}
 }
 
 /**
@@ -105,16 +123,20 @@ export function decompressBlob<T> (blob: RawUsernotesBlob<T>): T {
  * @param data The usernotes data object read from the wiki, as an object (i.e.
  * you should parse the page contents as JSON to pass into this function)
  * @returns Data object updated to latest schema version
+ * @throws {UnsupportedSchemaVersionError} if the data's schema version is
+ * missing or unsupported
  */
 export function migrateUsernotesToLatestSchema (data: any): RawUsernotes {
-	if (data.ver < EARLIEST_KNOWN_USERNOTES_SCHEMA) {
-		throw new TypeError(
-			`Unknown schema version ${data.ver} (earliest known version is ${EARLIEST_KNOWN_USERNOTES_SCHEMA})`,
-		);
-	}
-	if (data.ver > LATEST_KNOWN_USERNOTES_SCHEMA) {
-		throw new TypeError(
-			`Unknown schema version ${data.ver} (latest known version is ${LATEST_KNOWN_USERNOTES_SCHEMA})`,
+	if (
+		typeof data?.ver !== 'number'
+		|| data.ver < EARLIEST_KNOWN_USERNOTES_SCHEMA
+		|| data.ver > LATEST_KNOWN_USERNOTES_SCHEMA
+	) {
+		throw new UnsupportedSchemaVersionError(
+			'usernotes',
+			data?.ver,
+			EARLIEST_KNOWN_USERNOTES_SCHEMA,
+			LATEST_KNOWN_USERNOTES_SCHEMA,
 		);
 	}
 
@@ -138,3 +160,223 @@ export function migrateUsernotesToLatestSchema (data: any): RawUsernotes {
 
 	return data as RawUsernotes;
 }
+
+/** Checks whether a value is a plain object (not an array or null). */
+function isObject (value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the parts of a usernotes page outside the blob. Problems found here
+ * mean none of the notes on the page can be read.
+ * @param data The usernotes data object read from the wiki, as an object,
+ * already updated to the latest schema version
+ * @returns A list of problems, which is empty if the page is valid
+ */
+export function validateRawUsernotesStructure (
+	data: unknown,
+): UsernotesDiagnostic[] {
+	const diagnostics: UsernotesDiagnostic[] = [];
+	const error = (path: string, issue: string) =>
+		diagnostics.push({path, issue, severity: 'error'});
+
+	if (!isObject(data)) {
+		error('', 'page is not a JSON object');
+		return diagnostics;
+	}
+	if (!isObject(data.constants)) {
+		error('constants', 'missing or not an object');
+	} else {
+		for (const key of ['users', 'warnings']) {
+			if (!Array.isArray(data.constants[key])) {
+				error(`constants.${key}`, 'missing or not an array');
+			}
+		}
+	}
+	if (typeof data.blob !== 'string') {
+		error('blob', 'missing or not a string');
+	}
+	return diagnostics;
+}
+
+/**
+ * Checks a single raw note from the decompressed blob.
+ * @param note The raw note
+ * @param path The path of the note, used in the diagnostics
+ * @param constants The constants of the page the note is on
+ * @returns A list of problems, which is empty if the note is valid
+ */
+export function validateRawUsernote (
+	note: unknown,
+	path: string,
+	constants: RawUsernotesConstants,
+): UsernotesDiagnostic[] {
+	if (!isObject(note)) {
+		return [{path, issue: 'note is not an object', severity: 'error'}];
+	}
+	const raw = note as Partial<Record<keyof RawUsernotesNote, unknown>>;
+
+	const diagnostics: UsernotesDiagnostic[] = [];
+	const report = (
+		key: string,
+		issue: string,
+		severity: UsernotesDiagnostic['severity'],
+	) => diagnostics.push({path: `${path}.${key}`, issue, severity});
+
+	if (typeof raw.t !== 'number' || !isFinite(raw.t)) {
+		report('t', 'timestamp is missing or not a number', 'error');
+	}
+	if (typeof raw.n !== 'string') {
+		report('n', 'text is missing or not a string', 'error');
+	}
+	if (
+		typeof raw.m !== 'number'
+		|| typeof constants.users[raw.m] !== 'string'
+	) {
+		report('m', 'does not refer to a moderator in constants.users', 'error');
+	}
+	if (
+		raw.w != null
+		&& (typeof raw.w !== 'number' || constants.warnings[raw.w] === undefined)
+	) {
+		report(
+			'w',
+			'does not refer to a note type in constants.warnings; the note type will be ignored',
+			'warning',
+		);
+	}
+	if (raw.l != null && typeof raw.l !== 'string') {
+		report('l', 'link is not a string; it will be ignored', 'warning');
+	}
+	return diagnostics;
+}
+
+/**
+ * Checks the `users` object of a page using schema version 4 or 5, where users
+ * aren't compressed into a blob yet. Migrating a page with any of these
+ * problems would fail.
+ * @param users The `users` object of the page
+ * @returns A list of problems, which is empty if the users can be migrated
+ */
+export function validateLegacyUsernotesUsers (
+	users: unknown,
+): UsernotesDiagnostic[] {
+	if (!isObject(users)) {
+		return [{
+			path: 'users',
+			issue: 'missing or not an object',
+			severity: 'error',
+		}];
+	}
+	const diagnostics: UsernotesDiagnostic[] = [];
+	for (const [username, user] of Object.entries(users)) {
+		const path = `users.${username}.ns`;
+		if (!isObject(user) || !Array.isArray(user.ns)) {
+			diagnostics.push({
+				path,
+				issue: 'missing or not an array',
+				severity: 'error',
+			});
+			continue;
+		}
+		user.ns.forEach((note, i) => {
+			if (!isObject(note)) {
+				diagnostics.push({
+					path: `${path}[${i}]`,
+					issue: 'note is not an object',
+					severity: 'error',
+				});
+			}
+		});
+	}
+	return diagnostics;
+}
+
+/**
+ * Copies the `users` object of a page using schema version 4 or 5, leaving out
+ * the users and notes {@linkcode validateLegacyUsernotesUsers} reports, so the
+ * rest can be migrated.
+ * @param users The `users` object of the page
+ * @returns The users and notes which can be migrated
+ */
+export function removeInvalidLegacyUsernotesUsers (
+	users: Record<string, unknown>,
+): Record<string, unknown> {
+	const valid: Record<string, unknown> = {};
+	for (const [username, user] of Object.entries(users)) {
+		if (isObject(user) && Array.isArray(user.ns)) {
+			valid[username] = {...user, ns: user.ns.filter(isObject)};
+		}
+	}
+	return valid;
+}
+
+/**
+ * Checks raw usernotes data for problems that would prevent notes from being
+ * read correctly, e.g. a corrupt blob, moderator or note type indexes that
+ * don't refer to anything, or users without a list of notes.
+ * @param data The usernotes data object read from the wiki, as an object
+ * (i.e. you should parse the page contents as JSON to pass into this function)
+ * @returns A list of problems, which is empty if the data is valid
+ */
+export function validateUsernotes (data: unknown): UsernotesDiagnostic[] {
+	if (!isObject(data)) {
+		return validateRawUsernotesStructure(data);
+	}
+
+	// Older schemas store users as a plain object, which the migration walks
+	// through, so it has to be in good enough shape to migrate
+	if (data.ver === 4 || data.ver === 5) {
+		const diagnostics = validateLegacyUsernotesUsers(data.users);
+		if (diagnostics.length) {
+			return diagnostics;
+		}
+	}
+
+	let migrated: RawUsernotes;
+	try {
+		// Migration modifies the data it's given, so work on a copy; the data
+		// came from JSON, so it survives being copied through JSON
+		migrated = migrateUsernotesToLatestSchema(
+			JSON.parse(JSON.stringify(data)),
+		);
+	} catch (error) {
+		if (!(error instanceof UnsupportedSchemaVersionError)) {
+			throw error;
+		}
+		return [{path: 'ver', issue: error.message, severity: 'error'}];
+	}
+
+	const diagnostics = validateRawUsernotesStructure(migrated);
+	if (diagnostics.length) {
+		return diagnostics;
+	}
+
+	let users: unknown;
+	try {
+		users = decompressBlob(migrated.blob);
+	} catch (error) {
+		return [{path: 'blob', issue: 'blob is corrupt', severity: 'error'}];
+	}
+	if (!isObject(users)) {
+		return [{path: 'blob', issue: 'blob is not an object', severity: 'error'}];
+	}
+
+	for (const [username, user] of Object.entries(users)) {
+		const path = `blob.${username}`;
+		if (!isObject(user) || !Array.isArray(user.ns)) {
+			diagnostics.push({
+				path: `${path}.ns`,
+				issue: 'missing or not an array',
+				severity: 'error',
+			});
+			continue;
+		}
+		user.ns.forEach((note, i) => {
+			diagnostics.push(
+				...validateRawUsernote(note, `${path}.ns[${i}]`, migrated.constants),
+			);
+		});
+	}
+	return diagnostics;
+}
@@ -1,6 +1,30 @@
+export * from './classes/errors';
+export * from './classes/SubredditConfig';
 export * from './classes/ToolboxClient';
 export * from './classes/Usernotes';
+export * from './classes/WikiPageCache';
+export * from './helpers/analytics';
+export * from './helpers/config';
+export * from './helpers/domainTags';
+export * from './helpers/export';
+export * from './helpers/history';
+export * from './helpers/links';
+export * from './helpers/menuItems';
+export * from './helpers/modMacros';
+export * from './helpers/modNotes';
+export * from './helpers/removalReasons';
+export * from './helpers/tokens';
 export * from './helpers/usernotes';
+export * from './types/Analytics';
+export * from './types/Cache';
+export * from './types/Export';
+export * from './types/History';
+export * from './types/Links';
+export * from './types/MenuItems';
+export * from './types/ModMacros';
+export * from './types/ModNotes';
+export * from './types/RawSubredditConfig';
 export * from './types/RawUsernotes';
+export * from './types/RemovalReasons';
+export * from './types/Tokens';
 export * from './types/Usernote';
-// export * from './subConfig';
@@ -0,0 +1,94 @@
+import {UsernoteQuery} from './Usernote';
+
+// type imports for doc references
+import type {SubredditConfig} from '../classes/SubredditConfig';
+
+/** The length of the periods notes are counted in over time */
+export type UsernotesTimeBucket = 'day' | 'week' | 'month';
+
+/** Options for computing usernote statistics */
+export interface UsernotesAnalyticsOptions {
+	/**
+	 * Only count notes matching this query. Sorting and pagination options
+	 * are ignored.
+	 */
+	filter?: UsernoteQuery;
+	/**
+	 * The length of the periods to count notes in over time, defaulting to
+	 * `month`. Periods start at midnight UTC, and weeks start on Monday.
+	 */
+	bucket?: UsernotesTimeBucket;
+	/** The number of most-noted users to include, defaulting to 10 */
+	topUsers?: number;
+}
+
+/** The number of notes left by a single moderator */
+export interface ModeratorNoteCount {
+	/** The name of the moderator */
+	moderator: string;
+	/** The number of notes they left */
+	count: number;
+}
+
+/** The number of notes of a single note type */
+export interface NoteTypeCount {
+	/** The key of the note type, or `undefined` for notes without a type */
+	noteType: string | undefined;
+	/**
+	 * The display text of the note type from {@linkcode SubredditConfig}, or
+	 * the key if the subreddit doesn't define the type
+	 */
+	label: string | undefined;
+	/** The color of the note type, if the subreddit defines the type */
+	color: string | undefined;
+	/** The number of notes of this type */
+	count: number;
+}
+
+/** The number of notes on a single user */
+export interface UserNoteCount {
+	/** The name of the user */
+	username: string;
+	/** The number of notes on them */
+	count: number;
+	/** When the most recent note on them was left */
+	latest: Date;
+}
+
+/** The number of notes left during a single period of time */
+export interface NotesOverTimeCount {
+	/** The start of the period */
+	start: Date;
+	/** The number of notes left during the period */
+	count: number;
+}
+
+/** Statistics about a subreddit's usernotes */
+export interface UsernotesAnalytics {
+	/** The total number of notes counted */
+	total: number;
+	/** When the oldest note counted was left */
+	first: Date | undefined;
+	/** When the newest note counted was left */
+	last: Date | undefined;
+	/** The length of the periods in `overTime` */
+	bucket: UsernotesTimeBucket;
+	/** Notes per moderator, most notes first */
+	byModerator: ModeratorNoteCount[];
+	/** Notes per note type, most notes first */
+	byNoteType: NoteTypeCount[];
+	/** The users with the most notes, most notes first */
+	mostNotedUsers: UserNoteCount[];
+	/**
+	 * Notes per period of time, oldest first. Periods without any notes are
+	 * included, so the list is continuous, unless the notes span more than
+	 * 1000 periods; then only periods with notes are included.
+	 */
+	overTime: NotesOverTimeCount[];
+}
+
+/** Options for rendering usernote statistics as Markdown */
+export interface UsernotesAnalyticsMarkdownOptions {
+	/** The heading of the summary, defaulting to "Usernotes summary" */
+	title?: string;
+}
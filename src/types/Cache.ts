@@ -0,0 +1,50 @@
+// type imports for doc references
+import type {ToolboxClient} from '../classes/ToolboxClient';
+import type {MemoryCacheStorage} from '../classes/WikiPageCache';
+
+/**
+ * A place to store cached wiki pages. Devvit's Redis client can be used as-is,
+ * and other key-value stores can be adapted easily. See
+ * {@linkcode MemoryCacheStorage} for a simple in-memory implementation.
+ */
+export interface ToolboxCacheStorage {
+	/** Gets the value stored under a key, or `undefined` if there isn't one */
+	get (key: string): Promise<string | undefined>;
+	/** Stores a value under a key */
+	set (key: string, value: string): Promise<unknown>;
+	/** Removes the value stored under a key */
+	del (key: string): Promise<unknown>;
+}
+
+/** Options for caching wiki pages read by {@linkcode ToolboxClient} */
+export interface ToolboxCacheOptions {
+	/**
+	 * Where to store cached pages. Defaults to an in-memory store shared by
+	 * every client in the same process; pass the same storage (e.g. Devvit's
+	 * Redis client) to every client to share pages between all of them.
+	 * Parsed usernotes and config are kept in memory for each storage object
+	 * too, so pages that haven't changed aren't parsed again.
+	 */
+	storage?: ToolboxCacheStorage;
+	/**
+	 * How long, in milliseconds, a cached page is used without checking for
+	 * changes. Defaults to 30 seconds.
+	 */
+	ttl?: number;
+	/**
+	 * If true (the default), a cached page older than `ttl` is still used if
+	 * its revision is the latest one, which is cheaper to check than reading
+	 * the page again. If false, it's always read again.
+	 */
+	checkRevisions?: boolean;
+	/** Prefix for all storage keys, defaulting to `toolbox-devvit:` */
+	keyPrefix?: string;
+}
+
+/** The contents of a wiki page at a particular revision */
+export interface WikiPageSnapshot {
+	/** The page contents */
+	content: string;
+	/** The ID of the revision the contents are from */
+	revisionId: string;
+}
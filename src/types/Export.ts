@@ -0,0 +1,47 @@
+import {Usernote} from './Usernote';
+
+// type imports for doc references
+import type {Usernotes} from '../classes/Usernotes';
+
+/**
+ * A single usernote in the flat form used by {@linkcode Usernotes.toCSV} and
+ * {@linkcode Usernotes.toJSONL}. In CSV, missing values are empty cells.
+ */
+export interface UsernoteExportRow {
+	/** The name of the user the note is on */
+	username: string;
+	/** When the note was left, as an ISO 8601 string */
+	timestamp: string;
+	/** The name of the moderator who left the note */
+	moderator: string;
+	/** The key of the note's type */
+	noteType?: string;
+	/** The label of the note's type, if it's in the subreddit's config */
+	noteTypeLabel?: string;
+	/** The text of the note */
+	text: string;
+	/** The full permalink of the note's context */
+	permalink?: string;
+}
+
+/** Options for importing usernotes */
+export interface UsernotesImportOptions {
+	/**
+	 * What to do with the existing notes:
+	 * - `merge` (default) - keep them, skipping imported notes that duplicate
+	 *   an existing one
+	 * - `replace` - remove them all before importing
+	 */
+	mode?: 'merge' | 'replace';
+}
+
+/** The result of importing usernotes */
+export interface UsernotesImportResult {
+	/** The notes that were added */
+	added: Usernote[];
+	/**
+	 * Imported notes that weren't added because a note by the same moderator
+	 * at the same time already exists on the user
+	 */
+	duplicates: Usernote[];
+}
@@ -0,0 +1,67 @@
+import {Usernote} from './Usernote';
+
+// type imports for doc references
+import type {
+	ToolboxClient,
+	ToolboxClientOptions,
+} from '../classes/ToolboxClient';
+
+/**
+ * Loads the contents of a wiki page as of an older revision. Devvit can list a
+ * page's revisions but can't read their contents, so this has to be provided
+ * by the app, e.g. by requesting
+ * `https://www.reddit.com/r/{subreddit}/wiki/{page}.json?v={revisionId}`
+ * through an allowed HTTP fetch or from a copy the app keeps of each revision.
+ * Pass it to the client as {@linkcode ToolboxClientOptions.loadWikiRevision}.
+ * @param subreddit Name of the subreddit the page is in
+ * @param page Name of the page
+ * @param revisionId ID of the revision to load
+ * @returns Promise which resolves to the page contents at that revision
+ */
+export type WikiRevisionLoader = (
+	subreddit: string,
+	page: string,
+	revisionId: string,
+) => Promise<string>;
+
+/** A usernote whose text, type, or link was changed */
+export interface UsernoteModification {
+	/** The note before the change */
+	before: Usernote;
+	/** The note after the change */
+	after: Usernote;
+}
+
+/** Changes to the notes on a single user */
+export interface UsernotesUserDiff {
+	/** The name of the user, as spelled after the change */
+	username: string;
+	/** Notes that didn't exist before the change */
+	added: Usernote[];
+	/** Notes that don't exist anymore after the change */
+	removed: Usernote[];
+	/** Notes whose contents were changed */
+	modified: UsernoteModification[];
+}
+
+/** The changes made to usernotes by a single wiki revision */
+export interface UsernotesRevisionChanges {
+	/** The ID of the wiki revision */
+	revisionId: string;
+	/** The name of the account that made the revision */
+	author: string | undefined;
+	/** When the revision was made */
+	date: Date;
+	/** The reason given for the revision */
+	reason: string;
+	/** The changes made, for each user whose notes changed */
+	users: UsernotesUserDiff[];
+}
+
+/** Options for {@linkcode ToolboxClient.getUsernotesHistory} */
+export interface UsernotesHistoryOptions {
+	/** The maximum number of revisions to look at, defaulting to 10 */
+	limit?: number;
+	/** Only report changes to the notes on this user (case-insensitive) */
+	username?: string;
+}
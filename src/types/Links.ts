@@ -0,0 +1,52 @@
+// type imports for doc references
+import type {parseToolboxLink} from '../helpers/links';
+
+/**
+ * A link to something on Reddit, as understood by Toolbox. Usernotes store
+ * these in a shortened form; see {@linkcode parseToolboxLink}. IDs are stored
+ * without their type prefix (e.g. `abc123` rather than `t3_abc123`).
+ */
+export type ParsedToolboxLink =
+	| {
+		/** A link to a submission */
+		kind: 'submission';
+		/** The ID of the submission */
+		postId: string;
+	}
+	| {
+		/** A link to a comment */
+		kind: 'comment';
+		/** The ID of the submission the comment is on */
+		postId: string;
+		/** The ID of the comment */
+		commentId: string;
+	}
+	| {
+		/** A link to an old-style modmail message or private message */
+		kind: 'message';
+		/** The ID of the message */
+		messageId: string;
+	}
+	| {
+		/** A link to a new modmail conversation */
+		kind: 'modmail';
+		/** The ID of the conversation */
+		conversationId: string;
+	}
+	| {
+		/**
+		 * A share link (`/r/<subreddit>/s/<code>`). These redirect to the
+		 * shared item, but which item that is can't be worked out offline.
+		 */
+		kind: 'share';
+		/** The subreddit the share link is under */
+		subreddit: string;
+		/** The share code */
+		shareCode: string;
+	}
+	| {
+		/** Any other link, kept exactly as given */
+		kind: 'url';
+		/** The link */
+		url: string;
+	};
@@ -0,0 +1,47 @@
+import {MenuItemLocation} from '@devvit/public-api';
+import {ToolboxClientOptions} from '../classes/ToolboxClient';
+
+/** Text shown by the "Add usernote" menu items and form */
+export interface UsernoteMenuItemLabels {
+	/** The label of the menu items */
+	menuItem: string;
+	/** The description of the menu items, if any */
+	menuItemDescription: string | undefined;
+	/** The title of the form */
+	formTitle: string;
+	/** The label of the username field */
+	username: string;
+	/** The label of the note type dropdown */
+	noteType: string;
+	/** The label of the dropdown option for notes without a type */
+	noNoteType: string;
+	/** The label of the note text field */
+	text: string;
+	/** The label of the link field */
+	link: string;
+	/** The label of the form's submit button */
+	submit: string;
+	/** The toast shown after the note is added */
+	success: string;
+	/**
+	 * The toast shown when the form can't be shown or the note can't be
+	 * added. The error message is appended to it.
+	 */
+	failure: string;
+}
+
+/** Options for adding "Add usernote" menu items */
+export interface UsernoteMenuItemsOptions {
+	/**
+	 * Where to add menu items, defaulting to posts, comments, and the
+	 * subreddit. On posts and comments, the form is filled in with the author
+	 * and a link to the item.
+	 */
+	locations?: MenuItemLocation[];
+	/** Text to show instead of the defaults */
+	labels?: Partial<UsernoteMenuItemLabels>;
+	/** Options for the {@linkcode ToolboxClient} used to add the note */
+	clientOptions?: ToolboxClientOptions;
+	/** Wiki revision reason to use instead of the default */
+	reason?: string;
+}
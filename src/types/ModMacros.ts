@@ -0,0 +1,89 @@
+import {ToolboxTokens} from './Tokens';
+
+// type imports for doc references
+import type {RawModMacro} from './RawSubredditConfig';
+
+/** A post or comment a mod macro can be run on */
+export interface ModMacroItemTarget {
+	/** The kind of item */
+	kind: 'submission' | 'comment';
+	/** The fullname of the item, e.g. `t3_abc123` */
+	id: string;
+	/**
+	 * For comments, the fullname of the submission the comment is on. Only
+	 * needed to lock the thread; if omitted, the comment is fetched to find it.
+	 */
+	postId?: string;
+	/** The name of the subreddit the item is in */
+	subreddit: string;
+	/** The username of the item's author */
+	author: string;
+}
+
+/** A modmail conversation a mod macro can be run on */
+export interface ModMacroModmailTarget {
+	/** The kind of item */
+	kind: 'modmail';
+	/** The ID of the modmail conversation */
+	conversationId: string;
+	/** The name of the subreddit the conversation is in */
+	subreddit: string;
+	/** The username of the non-moderator participant of the conversation */
+	author: string;
+}
+
+/** Something a mod macro can be run on */
+export type ModMacroTarget = ModMacroItemTarget | ModMacroModmailTarget;
+
+/**
+ * A single action a mod macro can perform. Named after the corresponding
+ * {@linkcode RawModMacro} flag where there is one.
+ */
+export type ModMacroAction =
+	| 'reply'
+	| 'distinguish'
+	| 'remove'
+	| 'approve'
+	| 'lockthread'
+	| 'ban'
+	| 'mute'
+	| 'highlightmodmail'
+	| 'archivemodmail';
+
+/** Options for running a mod macro */
+export interface ModMacroOptions {
+	/**
+	 * Values for tokens used in the macro text. `author`, `subreddit`, and
+	 * `kind` are filled in from the target if not given.
+	 */
+	tokens?: ToolboxTokens;
+	/** If true, no actions are taken; the report only lists planned actions */
+	dryRun?: boolean;
+}
+
+/** The outcome of a single mod macro action */
+export interface ModMacroActionResult {
+	/** The action */
+	action: ModMacroAction;
+	/**
+	 * What happened:
+	 * - `planned` - the action would have been taken, but this was a dry run
+	 * - `success` - the action was taken
+	 * - `failed` - the action was attempted, but threw an error
+	 * - `skipped` - the action wasn't attempted because one it depends on
+	 *   failed
+	 */
+	status: 'planned' | 'success' | 'failed' | 'skipped';
+	/** The error thrown by a failed action */
+	error?: unknown;
+}
+
+/** A report of everything a mod macro did */
+export interface ModMacroReport {
+	/** The macro text with tokens expanded, as it was (or would be) sent */
+	reply: string;
+	/** The results of each action, in the order they were carried out */
+	actions: ModMacroActionResult[];
+	/** True if no action failed */
+	success: boolean;
+}
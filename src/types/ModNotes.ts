@@ -0,0 +1,20 @@
+import {UserNoteLabel} from '@devvit/public-api';
+
+// type imports for doc references
+import type {DEFAULT_MOD_NOTE_LABEL_MAPPING} from '../helpers/modNotes';
+
+/** Options for converting between usernotes and Reddit's native mod notes */
+export interface ModNoteConversionOptions {
+	/**
+	 * The usernote type key to use for each native mod note label. Entries here
+	 * override {@linkcode DEFAULT_MOD_NOTE_LABEL_MAPPING}; map a label to
+	 * `undefined` to convert it to a note without a type.
+	 */
+	noteTypes?: Partial<Record<UserNoteLabel, string | undefined>>;
+	/**
+	 * The native mod note label to use for each usernote type key. Defaults to
+	 * the reverse of `noteTypes`, using the first label listed for each key.
+	 * Note types without a label are converted to mod notes without a label.
+	 */
+	labels?: Record<string, UserNoteLabel | undefined>;
+}
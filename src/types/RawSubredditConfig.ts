@@ -53,7 +53,7 @@ export interface RawSubredditConfig {
 		 * Unimplemented - Toolbox itself does nothing with this key
 		 * @deprecated
 		 */
-		bantitle: unknown;
+		bantitle: string;
 		/**
 		 * Name of another subreddit to fetch removal reasons from, instead of
 		 * using the reasons defined in this config, or an empty string for none
@@ -161,7 +161,10 @@ export interface RawModMacro {
 	appprove: boolean;
 	/** If true, the submission will be locked */
 	lockthread: boolean;
-	/** If true, the reply comment will be stickied */
+	/**
+	 * If true, the reply comment will be stickied, if it's a reply to a
+	 * submission
+	 */
 	sticky: boolean;
 	/** If true, the modmail thread will be archived */
 	archivemodmail: boolean;
@@ -59,3 +59,20 @@ export interface RawUsernotes {
 	/** A blob that, when decompressed, yields a {@linkcode RawUsernotesUsers} object */
 	blob: RawUsernotesBlob<RawUsernotesUsers>;
 }
+
+/** A problem found while validating raw usernotes data */
+export interface UsernotesDiagnostic {
+	/**
+	 * Where the problem is, e.g. `constants.users` or `blob.someUser.ns[0].m`.
+	 * Paths starting with `blob` refer to the decompressed contents of the blob.
+	 */
+	path: string;
+	/** A description of the problem */
+	issue: string;
+	/**
+	 * How bad the problem is:
+	 * - `error` - the data at this path can't be read at all
+	 * - `warning` - the data can be read, but part of it will be ignored
+	 */
+	severity: 'error' | 'warning';
+}
@@ -0,0 +1,66 @@
+import {RawRemovalReason, RawSubredditConfig} from './RawSubredditConfig';
+import {ToolboxTokens} from './Tokens';
+
+/** A subreddit's removal reasons, split by the kind of item they apply to */
+export interface RemovalReasonsByKind {
+	/** Reasons that can be used to remove submissions */
+	posts: RawRemovalReason[];
+	/** Reasons that can be used to remove comments */
+	comments: RawRemovalReason[];
+}
+
+/** Options that control how a removal message is delivered */
+export type RemovalDeliveryOptions = Pick<
+	RawSubredditConfig['removalReasons'],
+	| 'typeReply'
+	| 'typeStickied'
+	| 'typeCommentAsSubreddit'
+	| 'typeLockThread'
+	| 'typeLockComment'
+	| 'typeAsSub'
+	| 'autoArchive'
+>;
+
+/** Options for rendering a removal message */
+export interface RemovalMessageOptions {
+	/** The reasons selected for the removal, in the order to include them */
+	reasons: RawRemovalReason[];
+	/** Values for tokens used in the reasons, header, footer, and subject */
+	tokens: ToolboxTokens;
+	/**
+	 * Delivery options chosen by the moderator for this removal. Ignored if the
+	 * subreddit forces its own settings.
+	 */
+	overrides?: Partial<RemovalDeliveryOptions>;
+	/**
+	 * The moderator's own default delivery options, used instead of the
+	 * subreddit's settings if the subreddit leaves them up to moderators
+	 */
+	personalDefaults?: Partial<RemovalDeliveryOptions>;
+}
+
+/** A fully rendered removal message and how to deliver it */
+export interface RenderedRemovalMessage {
+	/** The subject to use when sending the message as a PM or modmail */
+	subject: string;
+	/** The full text of the message, including header and footer */
+	body: string;
+	/** How the message should be delivered */
+	delivery: RemovalDeliveryOptions;
+}
+
+/**
+ * The removal reasons a subreddit uses, after following references to other
+ * subreddits' removal reasons
+ */
+export interface ResolvedRemovalReasons {
+	/** The effective removal reason settings */
+	settings: RawSubredditConfig['removalReasons'];
+	/** The name of the subreddit the settings were loaded from */
+	source: string;
+	/**
+	 * The names of every subreddit whose config was read, in order, starting
+	 * with the requested subreddit and ending with the source
+	 */
+	chain: string[];
+}
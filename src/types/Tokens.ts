@@ -0,0 +1,27 @@
+/**
+ * Values for the tokens that can be used in Toolbox templates like removal
+ * reasons and mod macros. Each token is written in a template as its name in
+ * curly braces, e.g. `{author}`. Tokens without a value are left as-is.
+ */
+export interface ToolboxTokens {
+	/** The username of the author of the item being acted on */
+	author?: string;
+	/** The name of the subreddit the item is in */
+	subreddit?: string;
+	/** The kind of item being acted on, e.g. `submission` or `comment` */
+	kind?: string;
+	/** The username of the moderator taking the action */
+	mod?: string;
+	/** The title of the submission */
+	title?: string;
+	/** The URL of the item, or the link of a link submission */
+	url?: string;
+	/** The domain of a link submission */
+	domain?: string;
+	/** The permalink to the item */
+	link?: string;
+	/** The text of the item */
+	body?: string;
+	/** Any other token */
+	[token: string]: string | undefined;
+}
@@ -1,3 +1,6 @@
+import {UsernotesImportResult} from './Export';
+import {RawUsernoteType} from './RawSubredditConfig';
+
 // type imports for doc references
 import type {SubredditConfig} from '../classes/SubredditConfig';
 import type {ToolboxClient} from '../classes/ToolboxClient';
@@ -38,6 +41,12 @@ export interface UsernoteInit {
 	noteType?: string;
 	/** Permalink to the item the note was left in response to */
 	contextPermalink?: string;
+	/**
+	 * Fields stored with this note that this library doesn't know about, e.g.
+	 * ones added by newer versions of Toolbox or by other tools. They're written
+	 * back unchanged when the note is saved.
+	 */
+	extraFields?: Record<string, unknown>;
 }
 
 /** A single usernote on a user */
@@ -47,3 +56,225 @@ export interface Usernote extends UsernoteInit {
 	/** The username of the moderator who left the note */
 	moderatorUsername: string;
 }
+
+/**
+ * Identifies a single existing usernote. Toolbox doesn't store IDs for notes, so
+ * a note is identified by the user it's on, the time it was left (rounded to
+ * the second, which is the precision notes are stored with), and the moderator
+ * who left it. Usernames are compared case-insensitively, since some
+ * third-party apps lowercase them. Any {@linkcode Usernote} can be used as its
+ * own identifier.
+ */
+export interface UsernoteIdentifier {
+	/** The name of the user the note is attached to */
+	username: string;
+	/** The date and time the note was left */
+	timestamp: Date;
+	/** The username of the moderator who left the note */
+	moderatorUsername: string;
+}
+
+/** Changes to make to an existing usernote */
+export type UsernoteUpdate = Partial<Omit<Usernote, 'username'>>;
+
+/** Criteria for searching through usernotes */
+export interface UsernoteQuery {
+	/** Only include notes on these users (case-insensitive) */
+	username?: string | string[];
+	/** Only include notes left by these moderators (case-insensitive) */
+	moderatorUsername?: string | string[];
+	/**
+	 * Only include notes with these note type keys. `null` matches notes
+	 * without a note type.
+	 */
+	noteType?: string | null | (string | null)[];
+	/** Only include notes left at or after this time */
+	from?: Date;
+	/** Only include notes left before this time */
+	to?: Date;
+	/**
+	 * Only include notes whose text matches. Strings match as a
+	 * case-insensitive substring; regular expressions are tested as-is.
+	 */
+	text?: string | RegExp;
+	/**
+	 * If `true`, only include notes with a context permalink; if `false`, only
+	 * include notes without one
+	 */
+	hasContextPermalink?: boolean;
+	/** The property to sort results by, defaulting to `timestamp` */
+	sortBy?: 'timestamp' | 'username' | 'moderatorUsername';
+	/** The direction to sort results in, defaulting to `descending` */
+	order?: 'ascending' | 'descending';
+	/** The number of matching notes to skip, for pagination */
+	offset?: number;
+	/** The maximum number of notes to return, for pagination */
+	limit?: number;
+}
+
+/** The results of a usernotes search */
+export interface UsernoteQueryResult {
+	/** The matching notes in the requested page of results */
+	notes: Usernote[];
+	/** The total number of matching notes, ignoring `offset` and `limit` */
+	total: number;
+}
+
+/**
+ * Rules for removing usernotes to save space on the wiki. Notes are removed if
+ * they match any of the given rules.
+ */
+export interface UsernotesPrunePolicy {
+	/** Remove notes older than this many days */
+	maxAgeDays?: number;
+	/** Remove all but this many of the newest notes on each user */
+	maxNotesPerUser?: number;
+	/** Remove notes with any of these note type keys */
+	noteTypes?: string[];
+	/**
+	 * Called with the name of each user who has notes; return `true` to remove
+	 * all of the user's notes. Useful for clearing out notes on users who have
+	 * been deleted or suspended.
+	 */
+	shouldRemoveUser?: (username: string) => boolean | Promise<boolean>;
+	/** The time to measure note ages against, defaulting to the current time */
+	now?: Date;
+}
+
+/** Details about the notes removed by pruning */
+export interface UsernotesPruneResult {
+	/** The number of notes that were removed */
+	removedNotes: number;
+	/** The names of users who no longer have any notes */
+	removedUsers: string[];
+}
+
+/** Information about how much wiki space the usernotes page takes up */
+export interface UsernotesSizeEstimate {
+	/** The size of the serialized page, in bytes */
+	size: number;
+	/** The maximum size of a wiki page, in bytes */
+	limit: number;
+	/** The fraction of the limit that's used, where 1 means the page is full */
+	usage: number;
+}
+
+/** A single change to make as part of a batch of usernote changes */
+export type UsernoteOperation =
+	| {
+		/** Creates a new note */
+		type: 'add';
+		/** Details about the note to create */
+		note: UsernoteInit;
+	}
+	| {
+		/** Changes an existing note */
+		type: 'edit';
+		/** Identifies the note to change */
+		note: UsernoteIdentifier;
+		/** The properties of the note to change */
+		changes: UsernoteUpdate;
+	}
+	| {
+		/** Deletes an existing note */
+		type: 'delete';
+		/** Identifies the note to delete */
+		note: UsernoteIdentifier;
+	};
+
+/** A summary of the changes made by a batch of usernote changes */
+export interface UsernoteBatchResult {
+	/** The number of notes created */
+	added: number;
+	/** The number of notes changed */
+	edited: number;
+	/** The number of notes deleted */
+	deleted: number;
+	/** Edit and delete operations whose notes didn't exist */
+	notFound: UsernoteOperation[];
+}
+
+/** A set of names which differ only by case and were merged into one */
+export interface UsernameCollision {
+	/** The spelling all the names were merged into */
+	canonical: string;
+	/** The other spellings that were replaced */
+	merged: string[];
+	/** The number of notes that were moved to the canonical spelling */
+	notesMoved: number;
+}
+
+/** Details about the changes made by normalizing usernames in usernotes */
+export interface UsernotesNormalizationReport {
+	/** Users whose notes were stored under several spellings */
+	users: UsernameCollision[];
+	/** Moderators whose notes were attributed to several spellings */
+	moderators: UsernameCollision[];
+}
+
+/** Options for reading usernotes from the wiki */
+export interface UsernotesParseOptions {
+	/**
+	 * If true, notes that can't be read are skipped and reported rather than
+	 * causing an error
+	 */
+	lenient?: boolean;
+}
+
+/** A usernote from one of several subreddits */
+export interface SubredditUsernote extends Usernote {
+	/** The name of the subreddit the note is in */
+	subreddit: string;
+	/**
+	 * The note's type as configured in that subreddit, or `undefined` if the
+	 * note has no type or the type isn't in the subreddit's config
+	 */
+	noteTypeDetails?: RawUsernoteType;
+}
+
+/** A subreddit whose usernotes couldn't be loaded */
+export interface UsernotesTimelineError {
+	/** The name of the subreddit */
+	subreddit: string;
+	/** The error thrown while loading its notes or config */
+	error: unknown;
+}
+
+/** Usernotes from several subreddits combined */
+export interface UsernotesTimeline {
+	/** The notes from every subreddit that loaded, newest first */
+	notes: SubredditUsernote[];
+	/** The subreddits that failed to load */
+	errors: UsernotesTimelineError[];
+}
+
+/** Options for copying usernotes from one subreddit to another */
+export interface CopyUsernotesOptions {
+	/** Only copy notes matching these criteria, e.g. a date range or type */
+	filter?: UsernoteQuery;
+	/**
+	 * The destination note type key to use for each source note type key.
+	 * Types not listed here keep their key if the destination has a type with
+	 * that key, or are matched to a destination type with the same label.
+	 */
+	noteTypes?: Record<string, string>;
+	/**
+	 * If true, note types that can't be matched are added to the destination
+	 * config. Otherwise, notes of those types are copied without a type.
+	 */
+	addMissingNoteTypes?: boolean;
+	/** Wiki revision reason to send */
+	reason?: string;
+	/** The maximum number of times to retry after a conflict */
+	maxRetries?: number;
+}
+
+/** The result of copying usernotes from one subreddit to another */
+export interface CopyUsernotesResult extends UsernotesImportResult {
+	/** Source note type keys that were copied as a different key */
+	remappedNoteTypes: Record<string, string>;
+	/** Note type keys that were added to the destination config */
+	addedNoteTypes: string[];
+	/** Source note type keys whose notes were copied without a type */
+	droppedNoteTypes: string[];
+}